@@ -1,7 +1,8 @@
 #!/usr/bin/env python3
 """
-Convert GeoTIFF DEM to grayscale heightmap (8-bit PNG)
-Normalizes elevation values to 0-255 range for visualization
+Convert GeoTIFF DEM to grayscale heightmap (8-bit or 16-bit PNG)
+Normalizes elevation values to 0-255 (or 0-65535) range for visualization
+Nodata pixels are written as fully transparent in 8-bit output
 """
 
 import numpy as np
@@ -9,7 +10,7 @@ import rasterio
 from PIL import Image
 import sys
 
-def dem_to_heightmap(input_file, output_file):
+def dem_to_heightmap(input_file, output_file, bits=8):
     """Convert DEM GeoTIFF to grayscale heightmap PNG"""
     
     # Read the DEM
@@ -26,24 +27,39 @@ def dem_to_heightmap(input_file, output_file):
     
     print(f"Elevation range: {min_elev} to {max_elev} meters")
     
-    # Normalize to 0-255 range
-    heightmap = np.zeros_like(elevation, dtype=np.uint8)
+    # Normalize to 0-255 (8-bit) or 0-65535 (16-bit) range
+    dtype = np.uint16 if bits == 16 else np.uint8
+    max_value = 65535 if bits == 16 else 255
+    heightmap = np.zeros_like(elevation, dtype=dtype)
     
     # Normalize valid data
     mask = elevation != nodata
-    heightmap[mask] = ((elevation[mask] - min_elev) / (max_elev - min_elev) * 255).astype(np.uint8)
+    heightmap[mask] = ((elevation[mask] - min_elev) / (max_elev - min_elev) * max_value).astype(dtype)
     
     # Save as PNG using PIL
-    img = Image.fromarray(heightmap, mode='L')
+    has_nodata = not mask.all()
+    if bits == 16:
+        # PIL can't write 16-bit grayscale with alpha, so nodata stays at 0
+        if has_nodata:
+            print("Warning: nodata pixels are written as the lowest elevation in 16-bit output; "
+                  "load the GeoTIFF directly to keep them as holes")
+        img = Image.fromarray(heightmap, mode='I;16')
+    elif has_nodata:
+        # Grayscale + alpha; the web app treats transparent pixels as holes
+        alpha = np.where(mask, 255, 0).astype(np.uint8)
+        img = Image.fromarray(np.dstack([heightmap, alpha]), mode='LA')
+    else:
+        img = Image.fromarray(heightmap, mode='L')
     img.save(output_file)
     
     print(f"Heightmap saved to {output_file}")
     print(f"Size: {heightmap.shape[1]}x{heightmap.shape[0]} pixels")
-    print(f"Grayscale range: 0-255 (mapped from {min_elev}m to {max_elev}m)")
+    print(f"Grayscale range: 0-{max_value} (mapped from {min_elev}m to {max_elev}m)")
 
 if __name__ == '__main__':
-    if len(sys.argv) != 3:
-        print("Usage: python3 dem_to_heightmap.py <input.tif> <output.png>")
+    args = [arg for arg in sys.argv[1:] if arg != '--16bit']
+    if len(args) != 2:
+        print("Usage: python3 dem_to_heightmap.py <input.tif> <output.png> [--16bit]")
         sys.exit(1)
     
-    dem_to_heightmap(sys.argv[1], sys.argv[2])
+    dem_to_heightmap(args[0], args[1], bits=16 if '--16bit' in sys.argv else 8)
@@ -3,127 +3,399 @@ import { Canvas } from "@react-three/fiber";
 import { OrbitControls } from "@react-three/drei";
 import { Terrain } from "./components/Terrain";
 import { useTrailTexture } from "./utils/trailTexture";
-import { Person } from "./components/Pin";
+import { Person, Pin } from "./components/Pin";
+import { AccuracyCircle } from "./components/AccuracyCircle";
+import { OffMapIndicator } from "./components/OffMapIndicator";
 import { SummitMarker } from "./components/SummitMarker";
 import { NorthArrow } from "./components/NorthArrow";
 import { Grass } from "./components/Grass";
 import { Trees } from "./components/Trees";
 import { Lighting } from "./components/Lighting";
-import { getFinalMapMeshPointMatrix } from "./utils/heightmapToMesh";
-import { GPSPosition } from "./utils/gpsUtils";
+import { HeightmapPipelineStage, MAX_NORMAL_MAP_SIZE, TerrainNormalMap } from "./utils/heightmapToMesh";
 import {
-  createTerrainHeightSamplerFromPointMatrix,
-  TerrainSampler,
-} from "./utils/terrainSampler";
-import { useMockGPSPosition } from "./utils/useMockGPSPosition";
+  bakeTerrainNormalMapInWorker,
+  loadMapHeightGridInWorker,
+  loadTerrainTileInWorker,
+} from "./utils/heightmapWorkerClient";
 import {
+  LOCATION_SOURCE_KINDS,
+  LocationFix,
+  LocationSource,
+  LocationSourceKind,
+  createBrowserLocationSource,
+  createReplayLocationSource,
+  createSimulatedLocationSource,
+  getLocationSourceFromUrl,
+  isMapDerivedSource,
+  radius95FromSigma,
+} from "./utils/locationSource";
+import { WGS84_EPSG, mapWorldToProjected } from "./utils/projection";
+import { TrailSimulation, createTrailSimulation, getScaledTrailSimulatorOptions } from "./utils/trailSimulator";
+import { createPositionFilter } from "./utils/positionFilter";
+import { getRelativeGPSPosition } from "./utils/mockGps";
+import { HeightGrid } from "./utils/HeightGrid";
+import { createTerrainHeightSamplerFromHeightGrid } from "./utils/terrainSampler";
+import { TERRAIN_TILE_RESOLUTION, getTerrainTileWindow } from "./utils/terrainQuadtree";
+import {
+  clearTerrainCache,
+  getTerrainCacheKey,
+  readTerrainCache,
+  writeTerrainCache,
+} from "./utils/terrainCache";
+import { MAX_ADAPTIVE_GRID_SIZE } from "./utils/terrainRtin";
+import { TerrainTileSource } from "./components/TerrainTiles";
+import { getMetersPerWorldKm, useGeoreferencedPosition } from "./utils/useGeoreferencedPosition";
+import { findTopologiesContaining, getTopologyMapFrame } from "./utils/georeference";
+import {
+  GAMEWORLD_RESOLUTION,
   TOPOMAP_GAME_SIZE_LIMIT_X,
   TOPOMAP_GAME_SIZE_LIMIT_Y,
   MAP_AUTO_ROTATE_ENABLED,
+  DEFAULT_TOPOMAP_WORLD_SIZE_Z,
+  MIN_VERTICAL_EXAGGERATION,
+  MAX_VERTICAL_EXAGGERATION,
   updateWorldScaling,
 } from "./utils/constants";
+import { OfflinePanel } from "./components/OfflinePanel";
 import { TopologySelector, TopologyOption } from "./components/TopologySelector";
+import { getTopologyView, resolveAssetUrl, useTopologyCatalog } from "./utils/topologyCatalog";
+import { downloadTrailmapBundle, importTrailmapBundle } from "./utils/trailmapBundle";
+import { CustomMapPanel } from "./components/CustomMapPanel";
+import {
+  CUSTOM_TOPOLOGY_ID,
+  CustomMapSettings,
+  DEFAULT_CUSTOM_MAP_SETTINGS,
+  applyCustomMapSettings,
+  createCustomTopology,
+  revokeCustomTopology,
+  sortDroppedFiles,
+} from "./utils/customMap";
+import { useFileDrop } from "./utils/useFileDrop";
+import { useTopologyAutoSelect } from "./utils/useTopologyAutoSelect";
 import "./App.css";
 
-// Available topology files
-const TOPOLOGY_OPTIONS: TopologyOption[] = [
-  {
-    id: 'tibrogargan',
-    name: 'Mount Tibrogargan',
-    file: 'tibrogargan_lidar_heightmap.png',
-    description: 'High-resolution LiDAR (1m), Queensland Government 2022',
-    viewWorldSize: 3.0,
-    uCenter: 0.5,
-    vCenter: 0.5,
-    sourceWorldSizeX: 3.0,
-    sourceWorldSizeY: 3.0,
-  },
-  {
-    id: 'default',
-    name: 'Default Terrain',
-    file: 'heightmap.jpg',
-    description: 'Original test terrain',
-    viewWorldSize: 10.0,
-    uCenter: 0.5,
-    vCenter: 0.5,
-    sourceWorldSizeX: 10.0,
-    sourceWorldSizeY: 10.0,
-  },
-];
+// Map center of a trail walk on a map in demo mode (Brisbane)
+const DEMO_TRAIL_REFERENCE = { latitude: -27.4698, longitude: 153.0251 };
+
+// Pause in slider changes after which a new height exaggeration is applied (ms)
+const EXAGGERATION_DEBOUNCE_MS = 150;
+
+// Speed multipliers offered for the trail walk
+const TRAIL_SIM_SPEEDS = [0.5, 1, 2, 5, 10];
 
 export default function App() {
-  const [terrainSampler, setterrainSampler] = useState<TerrainSampler | null>(
-    null,
-  );
+  const [heightGrid, setHeightGrid] = useState<HeightGrid | null>(null);
+  const [terrainTiles, setTerrainTiles] = useState<TerrainTileSource | null>(null);
+  // Adaptive mesh error of the loaded grid, which was built for it
+  const [meshMaxErrorM, setMeshMaxErrorM] = useState<number | undefined>(undefined);
+  const [terrainNormalMap, setTerrainNormalMap] = useState<TerrainNormalMap | null>(null);
+  const [verticalExaggeration, setVerticalExaggeration] = useState(1);
+  // Slider value not yet applied to the terrain, while it is being dragged
+  const [pendingExaggeration, setPendingExaggeration] = useState<number | null>(null);
+  const exaggerationTimer = useRef<number | null>(null);
   const [autoRotate, setAutoRotate] = useState(MAP_AUTO_ROTATE_ENABLED);
   const autoRotateTimer = useRef<number | null>(null);
   const [loaded, setLoaded] = useState(false);
-  const [selectedTopology, setSelectedTopology] = useState<string>(TOPOLOGY_OPTIONS[0].id);
+  const { catalog, error: catalogError } = useTopologyCatalog();
+  const [importedOptions, setImportedOptions] = useState<TopologyOption[]>([]);
+  const [customOption, setCustomOption] = useState<TopologyOption | null>(null);
+  const [customSettings, setCustomSettings] = useState<CustomMapSettings>(DEFAULT_CUSTOM_MAP_SETTINGS);
+  const [importError, setImportError] = useState<string | null>(null);
+  // Why the selected map couldn't be shown, shown on the loading overlay
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedTopology, setSelectedTopology] = useState<string | null>(null);
   const [showWater, setShowWater] = useState(false);
   const [isTopologyLoading, setIsTopologyLoading] = useState(false);
-  const [gpsPosition, setGpsPosition] = useState<GPSPosition | null>(null);
+  const [loadProgress, setLoadProgress] = useState<{ stage: HeightmapPipelineStage; fraction: number } | null>(null);
+  const [locationKind, setLocationKind] = useState<LocationSourceKind>(() => getLocationSourceFromUrl().kind);
+  const [replayUrl, setReplayUrl] = useState<string | null>(() => getLocationSourceFromUrl().replayUrl);
+  // Bumped to start the location source again, e.g. after a permission error
+  const [locationRestart, setLocationRestart] = useState(0);
+  const [simPlaying, setSimPlaying] = useState(true);
+  const [simSpeed, setSimSpeed] = useState(1);
+  const [gpsPosition, setGpsPosition] = useState<LocationFix | null>(null);
   const [gpsError, setGpsError] = useState<string | null>(null);
   const [isSecure, setIsSecure] = useState(true);
   const [deviceHeading, setDeviceHeading] = useState<number>(0);
   const [orientationPermission, setOrientationPermission] = useState<"prompt" | "granted" | "denied">("prompt");
-  const watchIdRef = useRef<number | null>(null);
   const handleOrientationRef = useRef<((event: DeviceOrientationEvent) => void) | null>(null);
 
-  const trailCsvUrl = `${import.meta.env.BASE_URL}trail_2.csv`;
-  const { texture: trailTexture, sampler: trailSampler } = useTrailTexture(trailCsvUrl);
+  // Carries the exaggeration to everything placed on the terrain
+  const terrainSampler = useMemo(
+    () => (heightGrid ? createTerrainHeightSamplerFromHeightGrid(heightGrid, verticalExaggeration) : null),
+    [heightGrid, verticalExaggeration],
+  );
 
-  // GPS-to-map position translation hook
-  const { mapPosition, updateFromGPS, isInitialized } = useMockGPSPosition({
-    realWorldSpanMeters: 20, // 20m real movement = full map width
+  // Every change rebuilds the terrain and everything on it, so changes are
+  // only applied once the slider pauses
+  const handleExaggerationChange = (value: number) => {
+    setPendingExaggeration(value);
+    if (exaggerationTimer.current) window.clearTimeout(exaggerationTimer.current);
+    exaggerationTimer.current = window.setTimeout(() => {
+      exaggerationTimer.current = null;
+      setVerticalExaggeration(value);
+      setPendingExaggeration(null);
+    }, EXAGGERATION_DEBOUNCE_MS);
+  };
+
+  const topologyOptions = useMemo(
+    () => [...(catalog?.options ?? []), ...importedOptions, ...(customOption ? [customOption] : [])],
+    [catalog, importedOptions, customOption],
+  );
+  const selectedOption = useMemo(
+    () => topologyOptions.find((opt) => opt.id === selectedTopology) ?? null,
+    [topologyOptions, selectedTopology],
+  );
+
+  // Pick the map from where the user is, with selectTopology for their own choices
+  const {
+    select: selectTopology,
+    prompt: topologyPrompt,
+    dismissPrompt: dismissTopologyPrompt,
+  } = useTopologyAutoSelect({
+    options: topologyOptions,
+    ready: catalog !== null,
+    selectedId: selectedTopology,
+    setSelectedId: setSelectedTopology,
+    position: gpsPosition,
+    followPosition: !isMapDerivedSource(locationKind),
   });
 
-  const startGpsWatch = () => {
-    if (!navigator.geolocation) {
-      setGpsError("Geolocation not supported");
-      return;
+  // Georeference of the selected map, for placing trails given in a CRS
+  const mapFrame = useMemo(
+    () => (selectedOption ? getTopologyMapFrame(selectedOption) : null),
+    [selectedOption],
+  );
+
+  const trailCsvUrls = useMemo(
+    () => selectedOption?.trails?.map(resolveAssetUrl) ?? [],
+    [selectedOption],
+  );
+  const {
+    texture: trailTexture,
+    sampler: trailSampler,
+    paths: trailPaths,
+  } = useTrailTexture(trailCsvUrls, mapFrame, selectedOption?.trailsEpsg);
+
+  const importBundle = async (file: File, takenIds: Set<string>) => {
+    try {
+      const option = await importTrailmapBundle(file);
+      // Keep ids unique so that a bundle never shadows a catalog map
+      let id = option.id;
+      for (let n = 2; takenIds.has(id); n++) {
+        id = `${option.id}-${n}`;
+      }
+      takenIds.add(id);
+      setImportedOptions((prev) => [...prev, { ...option, id }]);
+      selectTopology(id);
+      setImportError(null);
+    } catch (error) {
+      console.error("Failed to import map bundle:", error);
+      setImportError((error as Error).message);
     }
+  };
 
-    if (watchIdRef.current !== null) {
-      navigator.geolocation.clearWatch(watchIdRef.current);
+  // Bundles are imported one after another, so that each gets an id that no
+  // map or earlier bundle has
+  const importBundles = async (files: File[]) => {
+    const takenIds = new Set(topologyOptions.map((opt) => opt.id));
+    for (const file of files) {
+      await importBundle(file, takenIds);
     }
+  };
 
-    navigator.geolocation.getCurrentPosition(
-      (position) => {
-        const pos: GPSPosition = {
-          latitude: position.coords.latitude,
-          longitude: position.coords.longitude,
-        };
-        setGpsPosition(pos);
-        updateFromGPS(pos);
-        setGpsError(null);
-        
-        watchIdRef.current = navigator.geolocation.watchPosition(
-          (watchPos) => {
-            const newPos: GPSPosition = {
-              latitude: watchPos.coords.latitude,
-              longitude: watchPos.coords.longitude,
-            };
-            setGpsPosition(newPos);
-            updateFromGPS(newPos);
+  const handleImportBundle = (file: File) => importBundles([file]);
+
+  const handleFilesDropped = (files: File[]) => {
+    const dropped = sortDroppedFiles(files);
+    if (dropped.bundles.length > 0) importBundles(dropped.bundles);
+    if (dropped.ignored.length > 0) {
+      console.warn("Ignored extra dropped files:", dropped.ignored.map((file) => file.name));
+    }
+
+    if (dropped.heightmap) {
+      if (customOption) revokeCustomTopology(customOption);
+      setCustomOption(createCustomTopology(dropped.heightmap, dropped.trails, customSettings));
+      selectTopology(CUSTOM_TOPOLOGY_ID);
+      setImportError(null);
+    } else if (dropped.trails.length > 0) {
+      if (!customOption) {
+        setImportError("Drop a heightmap together with the trail files");
+        return;
+      }
+      // Add the trails to the current custom map
+      setCustomOption({
+        ...customOption,
+        trails: [...(customOption.trails ?? []), ...dropped.trails.map((trail) => URL.createObjectURL(trail))],
+      });
+      selectTopology(CUSTOM_TOPOLOGY_ID);
+      setImportError(null);
+    }
+  };
+
+  const isDraggingFiles = useFileDrop(handleFilesDropped);
+
+  const handleApplyCustomSettings = (settings: CustomMapSettings) => {
+    setCustomSettings(settings);
+    setCustomOption((prev) => (prev ? applyCustomMapSettings(prev, settings) : prev));
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearTerrainCache();
+      setImportError(null);
+    } catch (error) {
+      console.error("Failed to clear the terrain cache:", error);
+      setImportError((error as Error).message);
+    }
+  };
+
+  const handleExportBundle = async () => {
+    if (!selectedOption) return;
+    try {
+      await downloadTrailmapBundle(selectedOption);
+      setImportError(null);
+    } catch (error) {
+      console.error("Failed to export map bundle:", error);
+      setImportError((error as Error).message);
+    }
+  };
+
+  // GPS-to-map position translation hook
+  const {
+    mapPosition,
+    placement,
+    updateFromGPS,
+    setReference,
+    positioning,
+  } = useGeoreferencedPosition(selectedOption);
+
+  const handleReplayFile = (file: File) => {
+    if (replayUrl?.startsWith("blob:")) URL.revokeObjectURL(replayUrl);
+    setReplayUrl(URL.createObjectURL(file));
+  };
+
+  const metersPerWorldKm = useMemo(
+    () => (selectedOption ? getMetersPerWorldKm(selectedOption) : null),
+    [selectedOption],
+  );
+
+  // 1-σ accuracy of the filtered position in world km
+  const accuracyRadius =
+    gpsPosition && gpsPosition.accuracyM !== null && metersPerWorldKm
+      ? gpsPosition.accuracyM / metersPerWorldKm
+      : null;
+
+  // Other maps showing the position, offered while it is off the selected one
+  const containingOptions = useMemo(() => {
+    if (!gpsPosition || !placement || placement.inCircle) return [];
+    return findTopologiesContaining(
+      topologyOptions.filter((option) => option.id !== selectedTopology && option.id !== topologyPrompt?.id),
+      gpsPosition,
+    );
+  }, [gpsPosition, placement, topologyOptions, selectedTopology, topologyPrompt]);
+
+  // Center of the selected map, where a simulated walk starts
+  const simulationCenter = useMemo(() => {
+    if (!mapFrame) return null;
+    return mapWorldToProjected(mapFrame.viewSize / 2, mapFrame.viewSize / 2, mapFrame, WGS84_EPSG);
+  }, [mapFrame]);
+
+  // A walk along the selected map's trails, converted to fixes the way the
+  // map places them
+  const trailSimulation = useMemo((): TrailSimulation | null => {
+    if (locationKind !== "trail" || metersPerWorldKm === null) return null;
+    switch (positioning.mode) {
+      case "demo": {
+        const { spanM, viewSize } = positioning;
+        return createTrailSimulation(
+          trailPaths,
+          (x, y) => getRelativeGPSPosition(DEMO_TRAIL_REFERENCE, { x, y }, spanM, viewSize, viewSize),
+          getScaledTrailSimulatorOptions(metersPerWorldKm),
+        );
+      }
+      case "georeferenced": {
+        const { frame } = positioning;
+        return createTrailSimulation(
+          trailPaths,
+          (x, y) => {
+            const { x: longitude, y: latitude } = mapWorldToProjected(x, y, frame, WGS84_EPSG);
+            return { latitude, longitude };
           },
-          (err) => console.error("Watch error:", err),
-          { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
+          { metersPerWorldKm },
         );
-      },
-      (error) => {
-        let message = "GPS Error";
-        if (error.code === error.PERMISSION_DENIED) {
-          message = "Permission Denied. Check your browser's location settings.";
-        } else if (error.code === error.POSITION_UNAVAILABLE) {
-          message = "Position Unavailable";
-        } else if (error.code === error.TIMEOUT) {
-          message = "GPS Timeout";
+      }
+      case "none":
+        return null;
+    }
+  }, [locationKind, metersPerWorldKm, positioning, trailPaths]);
+
+  useEffect(() => {
+    trailSimulation?.setPlaying(simPlaying);
+    trailSimulation?.setSpeed(simSpeed);
+  }, [trailSimulation, simPlaying, simSpeed]);
+
+  // Sources are built per kind, so that map changes only restart the
+  // simulations that depend on the map, not the GPS or a replay
+  const simulatedSource = useMemo(
+    () =>
+      locationKind === "simulated"
+        ? createSimulatedLocationSource({
+            initialLatitude: simulationCenter?.y,
+            initialLongitude: simulationCenter?.x,
+          })
+        : null,
+    [locationKind, simulationCenter],
+  );
+
+  const externalSource = useMemo((): LocationSource | null => {
+    if (locationKind === "replay") {
+      return replayUrl
+        ? createReplayLocationSource(replayUrl)
+        : {
+            kind: "replay",
+            start: (_onFix, onError) => {
+              onError("No track to replay: add ?replay=<url of a GPX or CSV file>");
+              return () => {};
+            },
+          };
+    }
+    return locationKind === "gps" ? createBrowserLocationSource() : null;
+  }, [locationKind, replayUrl]);
+
+  const locationSource = useMemo((): LocationSource => {
+    if (locationKind === "trail") {
+      return (
+        trailSimulation ?? {
+          kind: "trail",
+          start: (_onFix, onError) => {
+            onError("This map can't place positions, so there is no trail to walk");
+            return () => {};
+          },
         }
-        setGpsError(message);
+      );
+    }
+    return simulatedSource ?? externalSource ?? createBrowserLocationSource();
+  }, [locationKind, trailSimulation, simulatedSource, externalSource]);
+
+  // Position updates from the chosen source
+  useEffect(() => {
+    setGpsError(null);
+    // A trail walk in demo mode has its own map center; other sources set it
+    // with their first fix
+    setReference(locationSource.kind === "trail" ? DEMO_TRAIL_REFERENCE : null);
+    const filter = createPositionFilter();
+    return locationSource.start(
+      (fix) => {
+        const filtered = filter.update(fix);
+        if (!filtered) return;
+        setGpsPosition(filtered);
+        updateFromGPS(filtered);
+        setGpsError(null);
       },
-      { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
+      setGpsError,
     );
-  };
+  }, [locationSource, locationRestart, updateFromGPS, setReference]);
 
   const requestOrientationPermission = async () => {
     if (typeof (DeviceOrientationEvent as any).requestPermission === "function") {
@@ -150,43 +422,138 @@ export default function App() {
 
   // Load terrain when selected topology changes
   useEffect(() => {
+    if (!selectedOption) return;
+
     setIsTopologyLoading(true);
     setLoaded(false);
-    
-    const selectedOption = TOPOLOGY_OPTIONS.find(opt => opt.id === selectedTopology) || TOPOLOGY_OPTIONS[0];
+    setLoadError(null);
+    setShowWater(selectedOption.showWater ?? false);
+
     const topologyFile = selectedOption.file;
     
     // Update global world scaling for the selected map
-    const viewSize = selectedOption.viewWorldSize || 10.0;
-    updateWorldScaling(viewSize, viewSize);
+    const { viewSize, window: mapWindow } = getTopologyView(selectedOption);
+    const elevationRangeM =
+      selectedOption.minElevationM !== undefined && selectedOption.maxElevationM !== undefined
+        ? { min: selectedOption.minElevationM, max: selectedOption.maxElevationM }
+        : undefined;
+    const sizeZ = elevationRangeM
+      ? (elevationRangeM.max - elevationRangeM.min) / 1000
+      : DEFAULT_TOPOMAP_WORLD_SIZE_Z;
+    const exaggeration = selectedOption.verticalExaggeration ?? 1;
+    updateWorldScaling(viewSize, viewSize, sizeZ);
+    // A slider change still waiting would override the new map's exaggeration
+    if (exaggerationTimer.current) window.clearTimeout(exaggerationTimer.current);
+    exaggerationTimer.current = null;
+    setPendingExaggeration(null);
+    setVerticalExaggeration(exaggeration);
 
-    // Calculate spans for sampling the heightmap
-    const uSpan = selectedOption.sourceWorldSizeX ? viewSize / selectedOption.sourceWorldSizeX : 1.0;
-    const vSpan = selectedOption.sourceWorldSizeY ? viewSize / selectedOption.sourceWorldSizeY : 1.0;
+    const url = resolveAssetUrl(topologyFile);
+    const filters = selectedOption.filters;
+    const lodLevels = selectedOption.lodLevels ?? 0;
+    const maxErrorM = selectedOption.meshMaxErrorM;
+    // Samples the finest mesh (or the normal map) takes across the map, so
+    // that streamed GeoTIFFs are read at no more than the resolution used
+    const meshSamplesX = lodLevels > 0
+      ? (TERRAIN_TILE_RESOLUTION - 1) * 2 ** lodLevels + 1
+      : maxErrorM !== undefined
+        ? MAX_ADAPTIVE_GRID_SIZE
+        : Math.ceil(GAMEWORLD_RESOLUTION * TOPOMAP_GAME_SIZE_LIMIT_X);
+    const meshSamplesY = lodLevels > 0
+      ? (TERRAIN_TILE_RESOLUTION - 1) * 2 ** lodLevels + 1
+      : maxErrorM !== undefined
+        ? MAX_ADAPTIVE_GRID_SIZE
+        : Math.ceil(GAMEWORLD_RESOLUTION * TOPOMAP_GAME_SIZE_LIMIT_Y);
+    const samplesX = Math.max(meshSamplesX, MAX_NORMAL_MAP_SIZE);
+    const samplesY = Math.max(meshSamplesY, MAX_NORMAL_MAP_SIZE);
+    // Tiles are loaded with the same options, so the worker reuses the raster
+    const loadOptions = {
+      encoding: selectedOption.encoding,
+      tiles: selectedOption.tiles,
+      crop: selectedOption.crop,
+      fileName: selectedOption.fileName,
+      elevationRangeM,
+      region: { ...mapWindow, samplesX, samplesY },
+    };
     
-    const base = import.meta.env.BASE_URL;
-    getFinalMapMeshPointMatrix(
-      `${base}${topologyFile}`,
-      selectedOption.uCenter ?? 0.5,
-      selectedOption.vCenter ?? 0.5,
-      uSpan,
-      vSpan
-    ).then((points) => {
-      setterrainSampler(createTerrainHeightSamplerFromPointMatrix(points));
+    let isCancelled = false;
+    setLoadProgress(null);
+    // Tiles of the previous map must not be requested with the new scaling
+    setTerrainTiles(null);
+    setTerrainNormalMap(null);
+    // Everything besides the file that the finished terrain depends on
+    const cacheParams = { mapWindow, loadOptions, filters, maxErrorM, viewSize, sizeZ };
+    const loadTerrain = async () => {
+      const cacheKey = await getTerrainCacheKey(url, cacheParams, !!selectedOption.tiles);
+      const cached = await readTerrainCache(cacheKey);
+      if (cached) return { ...cached, cacheKey };
+      const grid = await loadMapHeightGridInWorker(
+        url,
+        mapWindow.uCenter,
+        mapWindow.vCenter,
+        mapWindow.uSpan,
+        mapWindow.vSpan,
+        loadOptions,
+        filters,
+        (stage, fraction) => {
+          if (!isCancelled) setLoadProgress({ stage, fraction });
+        },
+        maxErrorM !== undefined,
+      );
+      writeTerrainCache(cacheKey, { grid, normalMap: null });
+      return { grid, normalMap: null, cacheKey };
+    };
+
+    loadTerrain().then(({ grid, normalMap, cacheKey }) => {
+      if (isCancelled) return;
+      setHeightGrid(grid);
+      setMeshMaxErrorM(maxErrorM);
+      setTerrainTiles(
+        lodLevels > 0
+          ? {
+              maxLevel: lodLevels,
+              loadTile: (tile) =>
+                loadTerrainTileInWorker(
+                  url,
+                  getTerrainTileWindow(mapWindow, tile),
+                  TERRAIN_TILE_RESOLUTION,
+                  viewSize / 2 ** tile.level,
+                  viewSize / 2 ** tile.level,
+                  loadOptions,
+                  filters,
+                ),
+            }
+          : null,
+      );
       setIsTopologyLoading(false);
+      setLoadProgress(null);
+
+      if (normalMap) {
+        setTerrainNormalMap(normalMap);
+        return;
+      }
+      // Lighting detail comes after the map is shown; the mesh normals do until then
+      bakeTerrainNormalMapInWorker(url, mapWindow, viewSize, viewSize, loadOptions)
+        .then((baked) => {
+          writeTerrainCache(cacheKey, { grid, normalMap: baked });
+          if (!isCancelled) setTerrainNormalMap(baked);
+        })
+        .catch((error) => console.error("Failed to bake the terrain normal map:", error));
     }).catch((error) => {
+      if (isCancelled) return;
       console.error("Failed to load topology:", error);
+      setLoadError(`Failed to load ${selectedOption.name}: ${(error as Error).message ?? String(error)}`);
       setIsTopologyLoading(false);
+      setLoadProgress(null);
     });
-  }, [selectedTopology]);
 
-  // GPS and orientation setup
-  useEffect(() => {
-    if (!window.isSecureContext) {
-      setGpsError("Insecure Context (Requires HTTPS)");
-      return;
-    }
+    return () => {
+      isCancelled = true;
+    };
+  }, [selectedOption]);
 
+  // Orientation setup
+  useEffect(() => {
     // Device orientation handler - defined at component level so it can be referenced
     const handleOrientation = (event: DeviceOrientationEvent) => {
       const heading =
@@ -200,8 +567,6 @@ export default function App() {
     // Store handler in ref so requestOrientationPermission can access it
     handleOrientationRef.current = handleOrientation;
 
-    startGpsWatch();
-
     // Check if we need to request permission (iOS 13+)
     if (typeof (DeviceOrientationEvent as any).requestPermission === "function") {
       setOrientationPermission("prompt");
@@ -211,9 +576,6 @@ export default function App() {
     }
 
     return () => {
-      if (watchIdRef.current !== null) {
-        navigator.geolocation.clearWatch(watchIdRef.current);
-      }
       window.removeEventListener("deviceorientation", handleOrientation);
     };
   }, []);
@@ -227,13 +589,8 @@ export default function App() {
   const orbitTarget = useMemo(() => {
     const cx = TOPOMAP_GAME_SIZE_LIMIT_X / 2;
     const cz = TOPOMAP_GAME_SIZE_LIMIT_Y / 2;
-    if (!terrainSampler?.mapPoints?.length) return [cx, 0, cz] as const;
-    let minY = Infinity;
-    for (const row of terrainSampler.mapPoints) {
-      for (const p of row) {
-        if (p.threeY < minY) minY = p.threeY;
-      }
-    }
+    if (!terrainSampler) return [cx, 0, cz] as const;
+    const minY = terrainSampler.getGameHeightRange().min;
     return [cx, minY === Infinity ? 0 : minY, cz] as const;
   }, [terrainSampler]);
 
@@ -275,7 +632,7 @@ export default function App() {
         }}
       >
         <div style={{ pointerEvents: "auto" }}>
-          {!isSecure ? (
+          {!isSecure && locationKind === "gps" ? (
             <div
               style={{
                 color: "white",
@@ -293,7 +650,7 @@ export default function App() {
             <div style={{ display: "flex", flexDirection: "column", alignSelf: "flex-start" }}>
               <span style={{ color: "#ff4444" }}>Error: {gpsError}</span>
               <button
-                onClick={startGpsWatch}
+                onClick={() => setLocationRestart((n) => n + 1)}
                 style={{
                   marginTop: "5px",
                   padding: "4px 8px",
@@ -311,7 +668,41 @@ export default function App() {
           ) : gpsPosition ? (
             <div>
               <div>Lat: {gpsPosition.latitude.toFixed(6)}, Lng: {gpsPosition.longitude.toFixed(6)}</div>
-              <div>Map: ({mapPosition.x.toFixed(2)}, {mapPosition.y.toFixed(2)}) {isInitialized ? "" : "(calibrating...)"}</div>
+              <div>
+                {gpsPosition.accuracyM !== null
+                  ? `±${radius95FromSigma(gpsPosition.accuracyM).toFixed(0)} m (95%)`
+                  : "±? m"}
+                {gpsPosition.altitudeM !== null ? `, Alt: ${gpsPosition.altitudeM.toFixed(0)} m` : ""}
+              </div>
+              <div>
+                {mapPosition
+                  ? `Map: (${mapPosition.x.toFixed(2)}, ${mapPosition.y.toFixed(2)})${positioning.mode === "demo" ? " (demo)" : ""}${placement && !placement.inCircle ? " off map" : ""}`
+                  : "Map: not georeferenced"}
+              </div>
+              {containingOptions.length > 0 && (
+                <div style={{ display: "flex", flexDirection: "column", gap: "4px", marginTop: "5px", fontSize: "12px" }}>
+                  <span>You're on:</span>
+                  {containingOptions.map((option) => (
+                    <button
+                      key={option.id}
+                      onClick={() => selectTopology(option.id)}
+                      disabled={isTopologyLoading}
+                      style={{
+                        alignSelf: "flex-start",
+                        padding: "4px 8px",
+                        fontSize: "12px",
+                        cursor: "pointer",
+                        backgroundColor: "#4CAF50",
+                        border: "none",
+                        color: "white",
+                        borderRadius: "4px",
+                      }}
+                    >
+                      Switch to {option.name}
+                    </button>
+                  ))}
+                </div>
+              )}
               <div>Heading: {deviceHeading.toFixed(1)}°</div>
               <div style={{ marginTop: "10px", display: "flex", alignItems: "center", gap: "8px" }}>
                 <input
@@ -345,13 +736,175 @@ export default function App() {
             "Fetching GPS..."
           )}
         </div>
+        <div style={{ pointerEvents: "auto", display: "flex", alignItems: "center", gap: "8px", fontSize: "14px" }}>
+          <label htmlFor="exaggeration-slider">Height ×{(pendingExaggeration ?? verticalExaggeration).toFixed(1)}</label>
+          <input
+            type="range"
+            id="exaggeration-slider"
+            min={MIN_VERTICAL_EXAGGERATION}
+            max={MAX_VERTICAL_EXAGGERATION}
+            step={0.1}
+            value={pendingExaggeration ?? verticalExaggeration}
+            onChange={(e) => handleExaggerationChange(Number(e.target.value))}
+            style={{ cursor: "pointer" }}
+          />
+        </div>
+        {import.meta.env.DEV && (
+          <div style={{ pointerEvents: "auto", display: "flex", alignItems: "center", gap: "8px", fontSize: "14px" }}>
+            <label htmlFor="location-source">Location</label>
+            <select
+              id="location-source"
+              value={locationKind}
+              onChange={(e) => setLocationKind(e.target.value as LocationSourceKind)}
+              style={{ fontFamily: "monospace", cursor: "pointer" }}
+            >
+              {LOCATION_SOURCE_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {kind}
+                </option>
+              ))}
+            </select>
+            {locationKind === "replay" && (
+              <input
+                type="file"
+                accept=".gpx,.csv"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleReplayFile(file);
+                }}
+                style={{ fontSize: "12px" }}
+              />
+            )}
+          </div>
+        )}
+        {trailSimulation && (
+          <div style={{ pointerEvents: "auto", display: "flex", alignItems: "center", gap: "8px", fontSize: "14px" }}>
+            <button
+              onClick={() => setSimPlaying((playing) => !playing)}
+              style={{
+                padding: "4px 8px",
+                fontSize: "12px",
+                cursor: "pointer",
+                backgroundColor: "#4CAF50",
+                border: "none",
+                color: "white",
+                borderRadius: "4px",
+              }}
+            >
+              {simPlaying ? "Pause walk" : "Play walk"}
+            </button>
+            <label htmlFor="trail-sim-speed">Speed</label>
+            <select
+              id="trail-sim-speed"
+              value={simSpeed}
+              onChange={(e) => setSimSpeed(Number(e.target.value))}
+              style={{ fontFamily: "monospace", cursor: "pointer" }}
+            >
+              {TRAIL_SIM_SPEEDS.map((speed) => (
+                <option key={speed} value={speed}>
+                  ×{speed}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div style={{ pointerEvents: "auto" }}>
+          <OfflinePanel option={selectedOption} />
+        </div>
       </div>
       <TopologySelector
-        options={TOPOLOGY_OPTIONS}
-        selectedId={selectedTopology}
-        onSelect={setSelectedTopology}
-        disabled={isTopologyLoading}
+        options={topologyOptions}
+        selectedId={selectedTopology ?? ""}
+        onSelect={selectTopology}
+        disabled={isTopologyLoading || (!catalog && !catalogError)}
+        errors={[
+          ...(catalogError ? [catalogError] : catalog?.errors ?? []),
+          ...(importError ? [importError] : []),
+        ]}
+        onImport={handleImportBundle}
+        onExport={handleExportBundle}
+        onClearCache={handleClearCache}
       />
+      {selectedTopology === CUSTOM_TOPOLOGY_ID && (
+        <CustomMapPanel
+          settings={customSettings}
+          onApply={handleApplyCustomSettings}
+          disabled={isTopologyLoading}
+        />
+      )}
+      {topologyPrompt && (
+        <div
+          style={{
+            position: "fixed",
+            bottom: "20px",
+            left: "50%",
+            transform: "translateX(-50%)",
+            zIndex: 1100,
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            padding: "8px 12px",
+            borderRadius: "8px",
+            backgroundColor: "rgba(255, 255, 255, 0.9)",
+            boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
+            fontFamily: "monospace",
+            fontSize: "14px",
+          }}
+        >
+          <span>You've walked onto {topologyPrompt.name}</span>
+          <button
+            onClick={() => selectTopology(topologyPrompt.id)}
+            disabled={isTopologyLoading}
+            style={{
+              padding: "4px 8px",
+              fontSize: "12px",
+              cursor: "pointer",
+              backgroundColor: "#4CAF50",
+              border: "none",
+              color: "white",
+              borderRadius: "4px",
+            }}
+          >
+            Switch
+          </button>
+          <button
+            onClick={dismissTopologyPrompt}
+            style={{
+              padding: "4px 8px",
+              fontSize: "12px",
+              cursor: "pointer",
+              backgroundColor: "#808080",
+              border: "none",
+              color: "white",
+              borderRadius: "4px",
+            }}
+          >
+            Stay
+          </button>
+        </div>
+      )}
+      {isDraggingFiles && (
+        <div
+          style={{
+            position: "fixed",
+            inset: "10px",
+            zIndex: 1200,
+            border: "3px dashed #4CAF50",
+            borderRadius: "12px",
+            backgroundColor: "rgba(255, 255, 255, 0.7)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            fontFamily: "monospace",
+            fontSize: "16px",
+            fontWeight: "bold",
+            color: "#333",
+            pointerEvents: "none",
+          }}
+        >
+          Drop a heightmap (image, GeoTIFF or .hgt) and trail CSVs, or a .trailmap bundle
+        </div>
+      )}
       <div
         style={{
           position: "fixed",
@@ -366,11 +919,39 @@ export default function App() {
           transition: "opacity 1s ease-out",
         }}
       >
-        <div className="loading-container">
-          <div className="loading-dot" />
-          <div className="loading-dot" />
-          <div className="loading-dot" />
-        </div>
+        {loadError ? (
+          <div className="loading-error">
+            <div>{loadError}</div>
+            {importError && <div>{importError}</div>}
+            <select
+              value=""
+              onChange={(event) => selectTopology(event.target.value)}
+              aria-label="Pick another map"
+            >
+              <option value="" disabled>
+                Pick another map
+              </option>
+              {topologyOptions
+                .filter((option) => option.id !== selectedTopology)
+                .map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+        ) : (
+          <div className="loading-container">
+            <div className="loading-dot" />
+            <div className="loading-dot" />
+            <div className="loading-dot" />
+          </div>
+        )}
+        {loadProgress && (
+          <div className="loading-progress">
+            {loadProgress.stage} {Math.round(loadProgress.fraction * 100)}%
+          </div>
+        )}
       </div>
       <Canvas shadows camera={{ position: [8, 4, 8], fov: 50 }}>
         <Lighting />
@@ -378,9 +959,13 @@ export default function App() {
 
         {terrainSampler && (
           <Terrain 
-            mapPoints={terrainSampler.mapPoints} 
+            grid={terrainSampler.grid} 
             trailTexture={trailTexture}
             showWater={showWater}
+            verticalExaggeration={verticalExaggeration}
+            tiles={terrainTiles}
+            maxErrorM={meshMaxErrorM}
+            normalMap={terrainNormalMap}
           />
         )}
         {terrainSampler && trailSampler && (
@@ -407,13 +992,28 @@ export default function App() {
             widthMultiplier={3}
           />
         )}
-        {terrainSampler && (
-          <SummitMarker 
-            terrainSampler={terrainSampler} 
-            topologyId={selectedTopology} 
+        {terrainSampler && selectedOption?.showSummit && (
+          <SummitMarker terrainSampler={terrainSampler} />
+        )}
+        {terrainSampler &&
+          selectedOption?.pois?.map((poi) => (
+            <Pin
+              key={`${selectedOption.id}-${poi.name}`}
+              x={poi.x}
+              y={poi.y}
+              terrainSampler={terrainSampler}
+              color={poi.color}
+            />
+          ))}
+        {terrainSampler && mapPosition && placement?.inExtent && accuracyRadius !== null && (
+          <AccuracyCircle
+            x={mapPosition.x}
+            y={mapPosition.y}
+            radius={accuracyRadius}
+            terrainSampler={terrainSampler}
           />
         )}
-        {terrainSampler && (
+        {terrainSampler && mapPosition && placement?.inExtent && (
           <Person
             x={mapPosition.x}
             y={mapPosition.y}
@@ -421,6 +1021,16 @@ export default function App() {
             color="#ff4444"
             radius={0.15}
             heading={deviceHeading}
+            ghost={!placement.inCircle}
+          />
+        )}
+        {terrainSampler && mapPosition && placement && !placement.inCircle && (
+          <OffMapIndicator
+            x={mapPosition.x}
+            y={mapPosition.y}
+            distanceM={metersPerWorldKm !== null ? placement.distance * metersPerWorldKm : null}
+            bearingDeg={placement.bearingDeg}
+            terrainSampler={terrainSampler}
           />
         )}
         <OrbitControls
@@ -0,0 +1,101 @@
+import { useEffect, useMemo } from "react";
+import * as THREE from "three";
+import { TerrainSampler } from "../utils/terrainSampler";
+import { Coordinate } from "../utils/Coordinate";
+
+const CIRCLE_HEIGHT_OFFSET = 0.004; // keeps the circle above the terrain and the trails
+const SEGMENTS = 48; // around the circle
+const RINGS = 6; // from the center out, so the disc follows the terrain
+
+interface AccuracyCircleProps {
+  x: number; // X coordinate in world coordinates
+  y: number; // Y coordinate in world coordinates
+  radius: number; // Radius in world coordinates
+  terrainSampler: TerrainSampler;
+  color?: string;
+}
+
+/**
+ * A translucent disc draped over the terrain around a position, showing how
+ * far off the position may be.
+ */
+export function AccuracyCircle({ x, y, radius, terrainSampler, color = "#2196F3" }: AccuracyCircleProps) {
+  const { disc, outline } = useMemo(() => {
+    const center = Coordinate.fromWorldCoords(x, y);
+    const centerHeight = terrainSampler.getHeightAt(center) ?? 0;
+
+    // Game position of a point at a distance and angle from the center
+    const vertex = (distance: number, angle: number) => {
+      const coordinate = Coordinate.fromWorldCoords(
+        x + distance * Math.cos(angle),
+        y + distance * Math.sin(angle),
+      );
+      const height = terrainSampler.getHeightAt(coordinate) ?? centerHeight;
+      return [coordinate.gameX, height + CIRCLE_HEIGHT_OFFSET, coordinate.gameY];
+    };
+
+    // Center vertex, then RINGS rings of SEGMENTS vertices
+    const positions: number[] = [...vertex(0, 0)];
+    for (let ring = 1; ring <= RINGS; ring++) {
+      for (let segment = 0; segment < SEGMENTS; segment++) {
+        positions.push(...vertex((radius * ring) / RINGS, (2 * Math.PI * segment) / SEGMENTS));
+      }
+    }
+    const ringStart = (ring: number) => 1 + (ring - 1) * SEGMENTS;
+
+    const indices: number[] = [];
+    for (let segment = 0; segment < SEGMENTS; segment++) {
+      const next = (segment + 1) % SEGMENTS;
+      indices.push(0, ringStart(1) + next, ringStart(1) + segment);
+      for (let ring = 1; ring < RINGS; ring++) {
+        const inner = ringStart(ring);
+        const outer = ringStart(ring + 1);
+        indices.push(inner + segment, inner + next, outer + segment);
+        indices.push(inner + next, outer + next, outer + segment);
+      }
+    }
+
+    const disc = new THREE.BufferGeometry();
+    disc.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+    disc.setIndex(indices);
+
+    const edge = positions.slice(ringStart(RINGS) * 3);
+    const outline = new THREE.BufferGeometry();
+    outline.setAttribute("position", new THREE.Float32BufferAttribute(edge, 3));
+    return { disc, outline };
+  }, [x, y, radius, terrainSampler]);
+
+  useEffect(
+    () => () => {
+      disc.dispose();
+      outline.dispose();
+    },
+    [disc, outline],
+  );
+
+  const discMaterial = useMemo(
+    () =>
+      new THREE.MeshBasicMaterial({
+        color,
+        transparent: true,
+        opacity: 0.2,
+        depthWrite: false,
+        side: THREE.DoubleSide,
+      }),
+    [color],
+  );
+
+  const outlineMaterial = useMemo(
+    () => new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.7 }),
+    [color],
+  );
+
+  const outlineLine = useMemo(() => new THREE.LineLoop(outline, outlineMaterial), [outline, outlineMaterial]);
+
+  return (
+    <group>
+      <mesh geometry={disc} material={discMaterial} renderOrder={1} />
+      <primitive object={outlineLine} />
+    </group>
+  );
+}
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { CustomMapSettings } from '../utils/customMap';
+
+interface CustomMapPanelProps {
+  settings: CustomMapSettings;
+  onApply: (settings: CustomMapSettings) => void;
+  disabled?: boolean;
+}
+
+const FIELDS: { key: keyof CustomMapSettings; label: string; min: number; max?: number; step: number }[] = [
+  { key: 'viewWorldSize', label: 'View size (km)', min: 0.01, step: 0.1 },
+  { key: 'sourceWorldSize', label: 'Heightmap size (km)', min: 0.01, step: 0.1 },
+  { key: 'uCenter', label: 'Center U (0-1)', min: 0, max: 1, step: 0.01 },
+  { key: 'vCenter', label: 'Center V (0-1)', min: 0, max: 1, step: 0.01 },
+];
+
+/**
+ * Form for the view size and center of a map built from dropped files.
+ */
+export const CustomMapPanel: React.FC<CustomMapPanelProps> = ({
+  settings,
+  onApply,
+  disabled = false,
+}) => {
+  const [values, setValues] = useState(settings);
+
+  // Start over from the applied settings whenever they change
+  useEffect(() => {
+    setValues(settings);
+  }, [settings]);
+
+  const isValid = FIELDS.every(
+    ({ key, min, max }) =>
+      Number.isFinite(values[key]) && values[key] >= min && (max === undefined || values[key] <= max),
+  );
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (isValid) onApply(values);
+      }}
+      style={{
+        position: 'fixed',
+        bottom: '10px',
+        left: '10px',
+        zIndex: 1100,
+        backgroundColor: 'rgba(255, 255, 255, 0.9)',
+        padding: '10px 15px',
+        borderRadius: '8px',
+        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        display: 'grid',
+        gridTemplateColumns: 'auto 80px',
+        gap: '5px 8px',
+        alignItems: 'center',
+      }}
+    >
+      <div style={{ gridColumn: '1 / -1', fontWeight: 'bold', color: '#333', fontSize: '14px' }}>
+        Custom Map
+      </div>
+      {FIELDS.map(({ key, label, min, max, step }) => (
+        <React.Fragment key={key}>
+          <label htmlFor={`custom-${key}`}>{label}</label>
+          <input
+            id={`custom-${key}`}
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            value={Number.isNaN(values[key]) ? '' : values[key]}
+            onChange={(e) => setValues({ ...values, [key]: e.target.valueAsNumber })}
+            style={{ fontFamily: 'monospace', fontSize: '12px', width: '100%' }}
+          />
+        </React.Fragment>
+      ))}
+      <button
+        type="submit"
+        disabled={disabled || !isValid}
+        style={{
+          gridColumn: '1 / -1',
+          marginTop: '5px',
+          padding: '4px 8px',
+          fontSize: '12px',
+          fontFamily: 'monospace',
+          cursor: disabled || !isValid ? 'not-allowed' : 'pointer',
+          backgroundColor: '#4CAF50',
+          border: 'none',
+          color: 'white',
+          borderRadius: '4px',
+        }}
+      >
+        Apply
+      </button>
+    </form>
+  );
+};
@@ -83,15 +83,7 @@ export function Grass({ terrainSampler, count = 500000, trailSampler = null, sho
     const tempMatrices = new Float32Array(count * 16);
     const tempObject = new THREE.Object3D();
     
-    let minH = Infinity;
-    let maxH = -Infinity;
-    const points = terrainSampler.mapPoints;
-    for (const row of points) {
-      for (const p of row) {
-        if (p.gameZ < minH) minH = p.gameZ;
-        if (p.gameZ > maxH) maxH = p.gameZ;
-      }
-    }
+    const { min: minH, max: maxH } = terrainSampler.getGameHeightRange();
 
     let placedCount = 0;
     const maxAttempts = count * 25; // Even higher attempts to satisfy noise masking
@@ -128,7 +120,9 @@ export function Grass({ terrainSampler, count = 500000, trailSampler = null, sho
 
       const coord = Coordinate.fromGameCoords(x, z);
       const h = terrainSampler.getHeightAt(coord);
-      
+      // No grass where the map has no data
+      if (h === null) continue;
+
       const normalizedH = (h - minH) / Math.max(0.0001, maxH - minH);
       
       // Start grass slightly above the water line (0.102) if water is shown, otherwise start at bottom
@@ -21,12 +21,7 @@ export function NorthArrow({
 }: NorthArrowProps) {
   // Calculate the minimum height of the terrain
   const minTerrainHeight = useMemo(() => {
-    let minH = Infinity;
-    for (const row of terrainSampler.mapPoints) {
-      for (const p of row) {
-        if (p.threeY < minH) minH = p.threeY;
-      }
-    }
+    const minH = terrainSampler.getGameHeightRange().min;
     return minH === Infinity ? 0 : minH;
   }, [terrainSampler]);
 
@@ -0,0 +1,108 @@
+import { useMemo } from "react";
+import * as THREE from "three";
+import { Html } from "@react-three/drei";
+import { TerrainSampler } from "../utils/terrainSampler";
+import { Coordinate } from "../utils/Coordinate";
+import { TOPOMAP_GAME_SIZE_LIMIT_X, TOPOMAP_GAME_SIZE_LIMIT_Y } from "../utils/constants";
+
+const COMPASS_POINTS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+
+interface OffMapIndicatorProps {
+  x: number; // X coordinate of the position in world coordinates
+  y: number; // Y coordinate of the position in world coordinates
+  distanceM: number | null; // Distance from the position to the map in metres, if known
+  bearingDeg: number; // Bearing from the position to the map center
+  terrainSampler: TerrainSampler;
+  size?: number; // Length of the arrow in game units
+}
+
+/** Formats a distance in metres as m or km. */
+function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+/**
+ * An arrow on the edge of the map circle pointing towards a position off the
+ * map, labelled with how far away the map is and which way to head to reach it.
+ */
+export function OffMapIndicator({
+  x,
+  y,
+  distanceM,
+  bearingDeg,
+  terrainSampler,
+  size = 0.4,
+}: OffMapIndicatorProps) {
+  // Lowest terrain, so the arrow lies flat along the bottom of the map like the north arrow
+  const minTerrainHeight = useMemo(() => {
+    const minH = terrainSampler.getGameHeightRange().min;
+    return minH === Infinity ? 0 : minH;
+  }, [terrainSampler]);
+
+  // On the circle's edge, in the direction of the position
+  const position = useMemo(() => {
+    const radius = Math.min(TOPOMAP_GAME_SIZE_LIMIT_X, TOPOMAP_GAME_SIZE_LIMIT_Y) / 2;
+    const centerX = TOPOMAP_GAME_SIZE_LIMIT_X / 2;
+    const centerZ = TOPOMAP_GAME_SIZE_LIMIT_Y / 2;
+    const coordinate = Coordinate.fromWorldCoords(x, y);
+    const dx = coordinate.gameX - centerX;
+    const dz = coordinate.gameY - centerZ;
+    const dist = Math.hypot(dx, dz) || 1;
+    return new THREE.Vector3(
+      centerX + (dx / dist) * (radius + size / 2),
+      minTerrainHeight + 0.02,
+      centerZ + (dz / dist) * (radius + size / 2),
+    );
+  }, [x, y, size, minTerrainHeight]);
+
+  // Flat triangle pointing in the negative Z direction (north)
+  const arrowGeometry = useMemo(() => {
+    const shape = new THREE.Shape();
+    shape.moveTo(0, size / 2);
+    shape.lineTo(-size * 0.35, -size / 2);
+    shape.lineTo(size * 0.35, -size / 2);
+    shape.lineTo(0, size / 2);
+    const geometry = new THREE.ShapeGeometry(shape);
+    geometry.rotateX(-Math.PI / 2);
+    return geometry;
+  }, [size]);
+
+  const material = useMemo(() => {
+    return new THREE.MeshStandardMaterial({
+      color: "#ff4444",
+      roughness: 0.4,
+      metalness: 0.1,
+      side: THREE.DoubleSide,
+    });
+  }, []);
+
+  // The arrow points away from the map, i.e. opposite the bearing to it
+  const rotationY = THREE.MathUtils.degToRad(-(bearingDeg + 180));
+  const compassPoint = COMPASS_POINTS[Math.round(bearingDeg / 45) % COMPASS_POINTS.length];
+  const label = [
+    "Off map",
+    ...(distanceM !== null ? [formatDistance(distanceM)] : []),
+    `map is ${compassPoint} (${Math.round(bearingDeg)}°)`,
+  ].join(" · ");
+
+  return (
+    <group position={position}>
+      <mesh geometry={arrowGeometry} material={material} rotation={[0, rotationY, 0]} />
+      <Html center position={[0, size / 2, 0]} style={{ pointerEvents: "none" }}>
+        <div
+          style={{
+            whiteSpace: "nowrap",
+            fontFamily: "monospace",
+            fontSize: "12px",
+            color: "white",
+            backgroundColor: "rgba(0,0,0,0.6)",
+            padding: "2px 6px",
+            borderRadius: "4px",
+          }}
+        >
+          {label}
+        </div>
+      </Html>
+    </group>
+  );
+}
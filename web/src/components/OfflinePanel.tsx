@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { TopologyOption, actionButtonStyle } from './TopologySelector';
+import {
+  StorageUsage,
+  canDownloadTopology,
+  downloadTopologyForOffline,
+  getStorageUsage,
+  isTopologyAvailableOffline,
+  removeOfflineTopology,
+} from '../utils/offlineMaps';
+import { useOnlineStatus } from '../utils/useOnlineStatus';
+
+interface OfflinePanelProps {
+  option: TopologyOption | null; // The map being viewed
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+/**
+ * HUD block with the connection status, the storage used and the offline
+ * download of the current map.
+ */
+export const OfflinePanel: React.FC<OfflinePanelProps> = ({ option }) => {
+  const isOnline = useOnlineStatus();
+  const [isAvailable, setIsAvailable] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped after a download or removal to check again
+  const [revision, setRevision] = useState(0);
+
+  const canDownload = option !== null && canDownloadTopology(option);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    (option && canDownload ? isTopologyAvailableOffline(option) : Promise.resolve(false))
+      .then((available) => {
+        if (!cancelled) setIsAvailable(available);
+      })
+      .catch((err) => console.warn('Failed to check the offline copy:', err));
+    getStorageUsage()
+      .then((estimate) => {
+        if (!cancelled) setUsage(estimate);
+      })
+      .catch((err) => console.warn('Failed to estimate storage usage:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [option, canDownload, revision]);
+
+  const handleDownload = async () => {
+    if (!option) return;
+    setError(null);
+    try {
+      await downloadTopologyForOffline(option, setProgress);
+    } catch (err) {
+      console.error('Failed to download the map:', err);
+      setError((err as Error).message);
+    } finally {
+      setProgress(null);
+      setRevision((r) => r + 1);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!option) return;
+    try {
+      await removeOfflineTopology(option);
+    } catch (err) {
+      console.error('Failed to remove the offline map:', err);
+      setError((err as Error).message);
+    } finally {
+      setRevision((r) => r + 1);
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-start', gap: '4px', fontSize: '12px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+        <span
+          style={{
+            width: '10px',
+            height: '10px',
+            borderRadius: '50%',
+            backgroundColor: isOnline ? '#4CAF50' : '#ff4444',
+          }}
+        />
+        <span>{isOnline ? 'Online' : 'Offline'}</span>
+        {usage && (
+          <span style={{ fontWeight: 'normal' }}>
+            · {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used
+          </span>
+        )}
+      </div>
+      {canDownload &&
+        (progress !== null ? (
+          <span>Downloading {Math.round(progress * 100)}%</span>
+        ) : isAvailable ? (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <span>✓ Available offline</span>
+            <button onClick={handleRemove} style={actionButtonStyle}>
+              Remove
+            </button>
+          </div>
+        ) : (
+          <button onClick={handleDownload} disabled={!isOnline} style={actionButtonStyle}>
+            Download for offline
+          </button>
+        ))}
+      {error && <span style={{ color: '#ff4444' }}>{error}</span>}
+    </div>
+  );
+};
+
+export default OfflinePanel;
@@ -5,6 +5,8 @@ import { TerrainSampler } from "../utils/terrainSampler";
 import { Point } from "../utils/Point";
 import { Coordinate } from "../utils/Coordinate";
 
+const GHOST_OPACITY = 0.35;
+
 interface PinProps {
   x: number; // X coordinate in world coordinates
   y: number; // Y coordinate in world coordinates
@@ -15,6 +17,7 @@ interface PinProps {
 
 interface PersonProps extends PinProps {
   heading?: number; // Device heading in degrees (0-360)
+  ghost?: boolean; // Drawn see-through, e.g. where the position is outside the map circle
 }
 
 function usePinPosition(x: number, y: number, terrainSampler: TerrainSampler, height: number) {
@@ -33,7 +36,7 @@ function usePinPosition(x: number, y: number, terrainSampler: TerrainSampler, he
       setPosition(
         new THREE.Vector3(
           point.threeX,
-          point.threeY + height / 2,
+          point.getThreeY(terrainSampler.verticalExaggeration) + height / 2,
           point.threeZ,
         ),
       );
@@ -112,6 +115,7 @@ export function Person({
   color = "#d83d28",
   radius = 0.1, // radius in game units
   heading = 0,
+  ghost = false,
 }: PersonProps) {
   const { pinGeometry, height, sphereRadius, sphereOffset } = usePinGeometry(radius);
   const position = usePinPosition(x, y, terrainSampler, height);
@@ -162,16 +166,20 @@ export function Person({
       color: color,
       roughness: 0.4,
       metalness: 0.1,
+      transparent: ghost,
+      opacity: ghost ? GHOST_OPACITY : 1,
     });
-  }, [color]);
+  }, [color, ghost]);
 
   const arrowMaterial = useMemo(() => {
     return new THREE.MeshStandardMaterial({
       color: "#ffffff",
       roughness: 0.4,
       metalness: 0.1,
+      transparent: ghost,
+      opacity: ghost ? GHOST_OPACITY : 1,
     });
-  }, []);
+  }, [ghost]);
 
   if (!position) return null;
 
@@ -50,7 +50,7 @@ export function StringTrail({
         if (terrainP) {
            trailCoordsVect3.push(new THREE.Vector3(
              p.threeX, 
-             terrainP.threeY + TRAIL_HEIGHT_OFFSET, 
+             terrainP.getThreeY(terrainSampler.verticalExaggeration) + TRAIL_HEIGHT_OFFSET, 
              p.threeZ
            ));
         }
@@ -5,39 +5,37 @@ import { Point } from "../utils/Point";
 
 interface SummitMarkerProps {
   terrainSampler: TerrainSampler;
-  topologyId: string;
 }
 
 /**
  * A marker for the summit of a mountain.
- * For Mt Tibrogargan, it finds the highest point on the map and places a marker there.
- * GPS Location: -26.933°S, 152.950°E
+ * Finds the highest point on the map and places a marker there. Whether it is
+ * shown is set per topology in the catalog (showSummit).
  */
-export function SummitMarker({ terrainSampler, topologyId }: SummitMarkerProps) {
+export function SummitMarker({ terrainSampler }: SummitMarkerProps) {
   const summitPosition = useMemo(() => {
-    // We only show this for the Tibrogargan map
-    if (topologyId !== 'tibrogargan') return null;
-
     // Find the highest point within the visible circular terrain
     // The terrain is centered at (5, 5) with a radius of 5 in game units
     const centerX = 5;
     const centerZ = 5;
     const circleRadius = 5;
 
+    const grid = terrainSampler.grid;
     let maxZ = -Infinity;
     let peak: Point | null = null;
 
-    for (const row of terrainSampler.mapPoints) {
-      for (const p of row) {
+    for (let row = 0; row < grid.height; row++) {
+      for (let col = 0; col < grid.width; col++) {
         // Calculate distance from center to check if it's within the visible circle
-        const dx = p.threeX - centerX;
-        const dz = p.threeZ - centerZ;
+        const dx = grid.gameXAt(col) - centerX;
+        const dz = grid.gameYAt(row) - centerZ;
         const dist = Math.sqrt(dx * dx + dz * dz);
 
-        if (dist <= circleRadius) {
-          if (p.gameZ > maxZ) {
-            maxZ = p.gameZ;
-            peak = p;
+        if (dist <= circleRadius && grid.isValid(col, row)) {
+          const height = grid.getWorldZ(col, row);
+          if (height > maxZ) {
+            maxZ = height;
+            peak = grid.getPoint(col, row);
           }
         }
       }
@@ -46,8 +44,8 @@ export function SummitMarker({ terrainSampler, topologyId }: SummitMarkerProps)
     if (!peak) return null;
 
     // Return the Three.js position
-    return new THREE.Vector3(peak.threeX, peak.threeY, peak.threeZ);
-  }, [terrainSampler, topologyId]);
+    return new THREE.Vector3(peak.threeX, peak.getThreeY(terrainSampler.verticalExaggeration), peak.threeZ);
+  }, [terrainSampler]);
 
   if (!summitPosition) return null;
 
@@ -1,22 +1,146 @@
 import { useEffect, useMemo, useState } from "react";
 import * as THREE from "three";
-import { Point } from "../utils/Point";
+import { HeightGrid } from "../utils/HeightGrid";
+import { TerrainNormalMap } from "../utils/heightmapToMesh";
 import {
   TOPOMAP_GAME_SIZE_LIMIT_X,
   TOPOMAP_GAME_SIZE_LIMIT_Y,
 } from "../utils/constants";
 import { simplex2d } from "../utils/noise";
+import { computeAdaptiveMeshErrors, createAdaptiveMesh } from "../utils/terrainRtin";
 
 import { createClayMaterial } from "../materials/clayMaterial";
+import { TerrainTileSource, TerrainTiles } from "./TerrainTiles";
 
 const FADE_FRACTION: number = 0.2;
 
+// Adaptive mesh errors of each grid; they take a while to work out and don't
+// change with the vertical exaggeration
+const adaptiveMeshErrors = new WeakMap<HeightGrid, Float32Array>();
+
 interface TerrainProps {
-  mapPoints: Point[][];
+  grid: HeightGrid;
   material?: THREE.Material;
   fadeFraction?: number;
   trailTexture?: THREE.Texture | null;
   showWater?: boolean;
+  /** Current vertical exaggeration; the geometry is rebuilt when it changes */
+  verticalExaggeration?: number;
+  /** Draw the terrain as quadtree tiles from this source instead of from grid */
+  tiles?: TerrainTileSource | null;
+  /**
+   * Build an adaptive mesh within this vertical error (metres) instead of a
+   * uniform grid; needs a grid of 2^k + 1 samples per side
+   */
+  maxErrorM?: number;
+  /** Normals baked from the full-resolution heightmap, used for lighting */
+  normalMap?: TerrainNormalMap | null;
+}
+
+/** A terrain vertex over a grid sample (see getTerrainVertex) */
+interface TerrainVertex {
+  x: number;
+  y: number;
+  z: number;
+  u: number;
+  v: number;
+  fade: number;
+  inCircle: boolean;
+}
+
+/**
+ * Places the vertex over a grid sample: samples outside the map circle are
+ * pulled onto its edge, heights get a little hand-sculpted wobble, and the
+ * fade runs from 1 inside to 0 at the edge of the circle.
+ */
+function getTerrainVertex(
+  grid: HeightGrid,
+  ix: number,
+  iy: number,
+  originX: number,
+  originZ: number,
+  fadeFraction: number,
+  verticalExaggeration: number,
+): TerrainVertex {
+  const radius =
+    Math.min(TOPOMAP_GAME_SIZE_LIMIT_X, TOPOMAP_GAME_SIZE_LIMIT_Y) / 2;
+  const centerX = TOPOMAP_GAME_SIZE_LIMIT_X / 2;
+  const centerZ = TOPOMAP_GAME_SIZE_LIMIT_Y / 2;
+  const fadeWidth = radius * fadeFraction; // wide fade over outer percentage of the circle
+
+  let x = originX + grid.gameXAt(ix);
+  let z = originZ + grid.gameYAt(iy);
+  // UVs span the whole map, so that map-wide textures line up across tiles
+  const u = x / TOPOMAP_GAME_SIZE_LIMIT_X;
+  const v = 1 - z / TOPOMAP_GAME_SIZE_LIMIT_Y;
+  const dx = x - centerX;
+  const dz = z - centerZ;
+  const dist = Math.sqrt(dx * dx + dz * dz);
+  if (dist > radius && dist > 1e-6) {
+    const scale = radius / dist;
+    x = centerX + dx * scale;
+    z = centerZ + dz * scale;
+  }
+
+  // Add "Hand-Sculpted" wobble (low frequency noise)
+  const wobble = simplex2d(x * 1.5, z * 1.5) * 0.05;
+  const y = grid.getGameZ(ix, iy, verticalExaggeration) + wobble;
+
+  // Fade: 1 at center, 0 at edge. Smoothstep over the outer fadeWidth.
+  const distForFade = Math.sqrt((x - centerX) ** 2 + (z - centerZ) ** 2);
+  const t =
+    fadeWidth > 1e-6 ? (distForFade - (radius - fadeWidth)) / fadeWidth : 0;
+  const smoothstep = t <= 0 ? 0 : t >= 1 ? 1 : t * t * (3 - 2 * t);
+
+  return { x, y, z, u, v, fade: 1 - smoothstep, inCircle: dist <= radius };
+}
+
+/**
+ * Finishes a terrain geometry: records the height range of the samples with
+ * data in userData.heightRange (used by the terrain shader), removes the
+ * triangles that are fully outside the circle or touch a sample without data,
+ * and computes the normals.
+ */
+function finishTerrainGeometry(
+  geometry: THREE.BufferGeometry,
+  inCircle: boolean[],
+  masked: boolean[],
+): THREE.BufferGeometry {
+  const positions = geometry.attributes.position;
+
+  // Find height range for texturing, leaving out samples without data
+  let minH = Infinity;
+  let maxH = -Infinity;
+  for (let i = 0; i < positions.count; i++) {
+    if (masked[i]) continue;
+    const y = positions.getY(i);
+    if (y < minH) minH = y;
+    if (y > maxH) maxH = y;
+  }
+  if (minH > maxH) {
+    minH = 0;
+    maxH = 0;
+  }
+  geometry.userData.heightRange = { min: minH, max: maxH };
+
+  const index = geometry.getIndex();
+  if (index) {
+    const newIndices: number[] = [];
+    const arr = index.array;
+    for (let i = 0; i < arr.length; i += 3) {
+      const i0 = arr[i];
+      const i1 = arr[i + 1];
+      const i2 = arr[i + 2];
+      if (masked[i0] || masked[i1] || masked[i2]) continue;
+      if (inCircle[i0] || inCircle[i1] || inCircle[i2]) {
+        newIndices.push(i0, i1, i2);
+      }
+    }
+    geometry.setIndex(newIndices);
+  }
+
+  geometry.computeVertexNormals();
+  return geometry;
 }
 
 /**
@@ -24,16 +148,26 @@ interface TerrainProps {
  * The geometry is sized to match the game world dimensions (1x1 game units) and uses
  * GAMEWORLD_RESOLUTION to determine the mesh density.
  *
- * @param mapPoints - The final map mesh point matrix
+ * The grid can also be one tile of the map, placed at the given origin; the
+ * circle cutout, fade and UVs always refer to the whole map.
+ *
+ * @param grid - The final map mesh height grid
+ * @param verticalExaggeration - Exaggeration to scale the heights by
+ * @param fadeFraction - Part of the circle's radius over which the terrain fades out
+ * @param originX - Game X of the grid's first column
+ * @param originZ - Game Y (threejs Z) of the grid's first row
  * @returns A Three.js PlaneGeometry with heights sampled from the terrain heightmap
  */
 export function createHeightmapGeometry(
-  mapPoints: Point[][],
+  grid: HeightGrid,
+  verticalExaggeration: number,
   fadeFraction: number = 0.2,
+  originX: number = 0,
+  originZ: number = 0,
 ): THREE.BufferGeometry {
-  // The mesh resolution matches the resampled matrix
-  const segmentsX = mapPoints[0].length - 1;
-  const segmentsZ = mapPoints.length - 1;
+  // The mesh resolution matches the resampled grid
+  const segmentsX = grid.width - 1;
+  const segmentsZ = grid.height - 1;
 
   // Create the plane geometry with the calculated resolution
   const geometry = new THREE.PlaneGeometry(
@@ -44,95 +178,164 @@ export function createHeightmapGeometry(
   );
   geometry.rotateX(-Math.PI / 2);
   const positions = geometry.attributes.position;
+  const uvs = geometry.attributes.uv;
 
-  // Map the resampled points directly to mesh vertices (threeX, threeY, threeZ = game coords in Three.js axes)
-  const radius =
-    Math.min(TOPOMAP_GAME_SIZE_LIMIT_X, TOPOMAP_GAME_SIZE_LIMIT_Y) / 2;
-  const centerX = TOPOMAP_GAME_SIZE_LIMIT_X / 2;
-  const centerZ = TOPOMAP_GAME_SIZE_LIMIT_Y / 2;
+  // Map the grid samples directly to mesh vertices (game coords in Three.js axes)
   const inCircle: boolean[] = [];
+  const masked: boolean[] = [];
   const vertexCount = (segmentsX + 1) * (segmentsZ + 1);
   const fadeArray = new Float32Array(vertexCount);
-  const fadeWidth = radius * fadeFraction; // wide fade over outer percentage of the circle
 
   for (let iy = 0; iy < segmentsZ + 1; iy++) {
     for (let ix = 0; ix < segmentsX + 1; ix++) {
       const i = iy * (segmentsX + 1) + ix;
-      const point = mapPoints[iy][ix];
-      let x = point.threeX;
-      let z = point.threeZ;
-      const dx = x - centerX;
-      const dz = z - centerZ;
-      const dist = Math.sqrt(dx * dx + dz * dz);
-      inCircle[i] = dist <= radius;
-      if (dist > radius && dist > 1e-6) {
-        const scale = radius / dist;
-        x = centerX + dx * scale;
-        z = centerZ + dz * scale;
-      }
-        positions.setX(i, x);
-        
-        // Add "Hand-Sculpted" wobble (low frequency noise)
-        const wobble = simplex2d(x * 1.5, z * 1.5) * 0.05;
-        const finalY = point.threeY + wobble;
-        
-        positions.setY(i, finalY);
-        positions.setZ(i, z);
-
-      // Fade: 1 at center, 0 at edge. Smoothstep over the outer fadeWidth.
-      const distForFade = Math.sqrt((x - centerX) ** 2 + (z - centerZ) ** 2);
-      const t =
-        fadeWidth > 1e-6 ? (distForFade - (radius - fadeWidth)) / fadeWidth : 0;
-      const smoothstep = t <= 0 ? 0 : t >= 1 ? 1 : t * t * (3 - 2 * t);
-      fadeArray[i] = 1 - smoothstep;
+      const vertex = getTerrainVertex(grid, ix, iy, originX, originZ, fadeFraction, verticalExaggeration);
+      positions.setXYZ(i, vertex.x, vertex.y, vertex.z);
+      uvs.setXY(i, vertex.u, vertex.v);
+      fadeArray[i] = vertex.fade;
+      inCircle[i] = vertex.inCircle;
+      masked[i] = !grid.isValid(ix, iy);
     }
   }
 
   geometry.setAttribute("fade", new THREE.BufferAttribute(fadeArray, 1));
+  return finishTerrainGeometry(geometry, inCircle, masked);
+}
 
-  // Find height range for texturing
-  let minH = Infinity;
-  let maxH = -Infinity;
-  for (let i = 0; i < positions.count; i++) {
-    const y = positions.getY(i);
-    if (y < minH) minH = y;
-    if (y > maxH) maxH = y;
+/**
+ * Creates an adaptive terrain geometry: a triangulation of the grid (see
+ * terrainRtin) with large triangles where the ground is flat, kept within
+ * maxErrorM of the grid's heights. The circle's edge and the borders of
+ * samples without data stay at full resolution, so the cutout matches
+ * createHeightmapGeometry's. Attributes and userData are the same too.
+ *
+ * @param grid - The final map mesh height grid; square with 2^k + 1 samples per side
+ * @param maxErrorM - Largest vertical error in real metres (before exaggeration)
+ * @param verticalExaggeration - Exaggeration to scale the heights by
+ * @param fadeFraction - Part of the circle's radius over which the terrain fades out
+ */
+export function createAdaptiveHeightmapGeometry(
+  grid: HeightGrid,
+  maxErrorM: number,
+  verticalExaggeration: number,
+  fadeFraction: number = 0.2,
+): THREE.BufferGeometry {
+  let errors = adaptiveMeshErrors.get(grid);
+  if (!errors) {
+    const radius =
+      Math.min(TOPOMAP_GAME_SIZE_LIMIT_X, TOPOMAP_GAME_SIZE_LIMIT_Y) / 2;
+    const centerX = TOPOMAP_GAME_SIZE_LIMIT_X / 2;
+    const centerZ = TOPOMAP_GAME_SIZE_LIMIT_Y / 2;
+    // Triangles within a cell of the edge can cross it
+    const cellSize = Math.hypot(grid.gameXAt(1), grid.gameYAt(1));
+
+    const detail = new Uint8Array(grid.width * grid.height);
+    for (let iy = 0; iy < grid.height; iy++) {
+      for (let ix = 0; ix < grid.width; ix++) {
+        const dist = Math.hypot(grid.gameXAt(ix) - centerX, grid.gameYAt(iy) - centerZ);
+        if (!grid.isValid(ix, iy) || Math.abs(dist - radius) <= cellSize) {
+          detail[grid.index(ix, iy)] = 1;
+        }
+      }
+    }
+    errors = computeAdaptiveMeshErrors(grid, detail);
+    adaptiveMeshErrors.set(grid, errors);
   }
-  const heightRange = new Float32Array(2);
-  heightRange[0] = minH;
-  heightRange[1] = maxH;
-  geometry.userData.heightRange = { min: minH, max: maxH };
 
-  // Remove triangles that are fully outside the circle
-  const index = geometry.getIndex();
-  if (index) {
-    const newIndices: number[] = [];
-    const arr = index.array;
-    for (let i = 0; i < arr.length; i += 3) {
-      const i0 = arr[i];
-      const i1 = arr[i + 1];
-      const i2 = arr[i + 2];
-      if (inCircle[i0] || inCircle[i1] || inCircle[i2]) {
-        newIndices.push(i0, i1, i2);
+  const mesh = createAdaptiveMesh(grid, errors, maxErrorM / 1000);
+
+  const count = mesh.vertices.length;
+  const positions = new Float32Array(count * 3);
+  const uvs = new Float32Array(count * 2);
+  const fadeArray = new Float32Array(count);
+  const inCircle: boolean[] = [];
+  const masked: boolean[] = [];
+  mesh.vertices.forEach((sample, i) => {
+    const ix = sample % grid.width;
+    const iy = Math.floor(sample / grid.width);
+    const vertex = getTerrainVertex(grid, ix, iy, 0, 0, fadeFraction, verticalExaggeration);
+    positions.set([vertex.x, vertex.y, vertex.z], i * 3);
+    uvs.set([vertex.u, vertex.v], i * 2);
+    fadeArray[i] = vertex.fade;
+    inCircle[i] = vertex.inCircle;
+    masked[i] = !grid.isValid(ix, iy);
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute("uv", new THREE.BufferAttribute(uvs, 2));
+  geometry.setAttribute("fade", new THREE.BufferAttribute(fadeArray, 1));
+  geometry.setIndex(new THREE.BufferAttribute(mesh.triangles, 1));
+  return finishTerrainGeometry(geometry, inCircle, masked);
+}
+
+/**
+ * Uploads a baked normal map as a half-float RG texture of slopes. The mipmaps
+ * are averaged here, as float textures can't have them generated everywhere.
+ */
+function createNormalMapTexture(normalMap: TerrainNormalMap): THREE.DataTexture {
+  const toHalfFloat = (data: Float32Array) => Uint16Array.from(data, (value) => THREE.DataUtils.toHalfFloat(value));
+
+  let { width, height, slopes } = normalMap;
+  const mipmaps = [{ data: toHalfFloat(slopes), width, height }];
+  while (width > 1 || height > 1) {
+    const nextWidth = Math.max(1, width >> 1);
+    const nextHeight = Math.max(1, height >> 1);
+    const next = new Float32Array(nextWidth * nextHeight * 2);
+    for (let y = 0; y < nextHeight; y++) {
+      for (let x = 0; x < nextWidth; x++) {
+        const x0 = Math.min(2 * x, width - 1);
+        const x1 = Math.min(2 * x + 1, width - 1);
+        const y0 = Math.min(2 * y, height - 1);
+        const y1 = Math.min(2 * y + 1, height - 1);
+        for (let c = 0; c < 2; c++) {
+          next[(y * nextWidth + x) * 2 + c] =
+            (slopes[(y0 * width + x0) * 2 + c] +
+              slopes[(y0 * width + x1) * 2 + c] +
+              slopes[(y1 * width + x0) * 2 + c] +
+              slopes[(y1 * width + x1) * 2 + c]) /
+            4;
+        }
       }
     }
-    geometry.setIndex(newIndices);
+    width = nextWidth;
+    height = nextHeight;
+    slopes = next;
+    mipmaps.push({ data: toHalfFloat(slopes), width, height });
   }
 
-  geometry.computeVertexNormals();
-  return geometry;
+  const texture = new THREE.DataTexture(
+    mipmaps[0].data,
+    normalMap.width,
+    normalMap.height,
+    THREE.RGFormat,
+    THREE.HalfFloatType,
+  );
+  texture.mipmaps = mipmaps;
+  texture.generateMipmaps = false;
+  texture.minFilter = THREE.LinearMipmapLinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.wrapS = texture.wrapT = THREE.ClampToEdgeWrapping;
+  texture.needsUpdate = true;
+  return texture;
 }
 
 function addTerrainShader(mat: THREE.Material) {
   mat.userData.uHeightRange = { value: new THREE.Vector2(0, 1) };
   mat.userData.uTrailTexture = { value: null };
   mat.userData.uShowWater = { value: 1.0 };
+  mat.userData.uNormalMap = { value: null };
+  mat.userData.uHasNormalMap = { value: 0.0 };
+  mat.userData.uNormalMapScale = { value: 1.0 };
   mat.onBeforeCompile = (shader) => {
     shader.vertexShader = "#define TERRAIN_SHADER\n" + shader.vertexShader;
     shader.fragmentShader = "#define TERRAIN_SHADER\n" + shader.fragmentShader;
     shader.uniforms.uHeightRange = mat.userData.uHeightRange;
     shader.uniforms.uTrailTexture = mat.userData.uTrailTexture;
     shader.uniforms.uShowWater = mat.userData.uShowWater;
+    shader.uniforms.uNormalMap = mat.userData.uNormalMap;
+    shader.uniforms.uHasNormalMap = mat.userData.uHasNormalMap;
+    shader.uniforms.uNormalMapScale = mat.userData.uNormalMapScale;
     shader.vertexShader = shader.vertexShader.replace(
       "#include <common>",
       "#include <common>\nattribute float fade;\nvarying float vFade;\nvarying float vTerrainHeight;\nvarying vec2 vUv;",
@@ -143,7 +346,22 @@ function addTerrainShader(mat: THREE.Material) {
     );
     shader.fragmentShader = shader.fragmentShader.replace(
       "#include <common>",
-      "#include <common>\nvarying float vFade;\nvarying float vTerrainHeight;\nvarying vec2 vUv;\nuniform vec2 uHeightRange;\nuniform sampler2D uTrailTexture;\nuniform float uShowWater;",
+      "#include <common>\nvarying float vFade;\nvarying float vTerrainHeight;\nvarying vec2 vUv;\nuniform vec2 uHeightRange;\nuniform sampler2D uTrailTexture;\nuniform float uShowWater;\nuniform sampler2D uNormalMap;\nuniform float uHasNormalMap;\nuniform float uNormalMapScale;\nuniform mat3 normalMatrix;",
+    );
+
+    // The baked normal replaces the mesh's before the bump map perturbs it,
+    // so the clay texture still shows on top. The map holds world slopes,
+    // scaled by the vertical exaggeration; its rows run along threejs Z.
+    const normalLogic = `
+      if (uHasNormalMap > 0.5) {
+        vec2 slope = texture2D(uNormalMap, vec2(vUv.x, 1.0 - vUv.y)).rg * uNormalMapScale;
+        normal = normalize(normalMatrix * vec3(-slope.x, 1.0, -slope.y));
+        nonPerturbedNormal = normal;
+      }
+    `;
+    shader.fragmentShader = shader.fragmentShader.replace(
+      "#include <normal_fragment_begin>",
+      "#include <normal_fragment_begin>\n" + normalLogic,
     );
 
     const colorLogic = `
@@ -175,7 +393,16 @@ function addTerrainShader(mat: THREE.Material) {
   };
 }
 
-export function Terrain({ mapPoints, material, trailTexture, showWater = true }: TerrainProps) {
+export function Terrain({
+  grid,
+  material,
+  trailTexture,
+  showWater = true,
+  verticalExaggeration = 1,
+  tiles,
+  maxErrorM,
+  normalMap,
+}: TerrainProps) {
   const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null);
   const [defaultMat] = useState(() => {
     const m = createClayMaterial({ color: "#b0e67e" });
@@ -199,7 +426,39 @@ export function Terrain({ mapPoints, material, trailTexture, showWater = true }:
   }, [showWater, mat]);
 
   useEffect(() => {
-    const geom = createHeightmapGeometry(mapPoints, FADE_FRACTION);
+    if (!mat.userData.uNormalMap) return;
+    const texture = normalMap ? createNormalMapTexture(normalMap) : null;
+    mat.userData.uNormalMap.value = texture;
+    mat.userData.uHasNormalMap.value = texture ? 1.0 : 0.0;
+    mat.needsUpdate = true;
+    return () => texture?.dispose();
+  }, [normalMap, mat]);
+
+  useEffect(() => {
+    if (mat.userData.uNormalMapScale) {
+      mat.userData.uNormalMapScale.value = verticalExaggeration;
+    }
+  }, [verticalExaggeration, mat]);
+
+  // Tiles only exist near the camera, so their colours use the map-wide range
+  const gridHeightRange = useMemo(
+    () => grid.getGameHeightRange(verticalExaggeration),
+    [grid, verticalExaggeration],
+  );
+
+  useEffect(() => {
+    if (tiles) {
+      setGeometry(null);
+      if (mat.userData.uHeightRange) {
+        mat.userData.uHeightRange.value.set(gridHeightRange.min, gridHeightRange.max);
+        mat.needsUpdate = true;
+      }
+      return;
+    }
+    const geom =
+      maxErrorM !== undefined
+        ? createAdaptiveHeightmapGeometry(grid, maxErrorM, verticalExaggeration, FADE_FRACTION)
+        : createHeightmapGeometry(grid, verticalExaggeration, FADE_FRACTION);
     setGeometry(geom);
     if (mat.userData.uHeightRange) {
       mat.userData.uHeightRange.value.set(
@@ -208,7 +467,8 @@ export function Terrain({ mapPoints, material, trailTexture, showWater = true }:
       );
       mat.needsUpdate = true;
     }
-  }, [mapPoints, mat]);
+    return () => geom.dispose();
+  }, [grid, mat, verticalExaggeration, tiles, gridHeightRange, maxErrorM]);
 
   const undersideMat = useMemo(
     () =>
@@ -220,6 +480,19 @@ export function Terrain({ mapPoints, material, trailTexture, showWater = true }:
     [],
   );
 
+  if (tiles) {
+    return (
+      <TerrainTiles
+        source={tiles}
+        material={mat}
+        undersideMaterial={undersideMat}
+        fadeFraction={FADE_FRACTION}
+        heightRange={gridHeightRange}
+        verticalExaggeration={verticalExaggeration}
+      />
+    );
+  }
+
   if (!geometry) return null;
 
   return (
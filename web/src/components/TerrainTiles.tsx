@@ -0,0 +1,179 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { HeightGrid } from "../utils/HeightGrid";
+import {
+  TerrainTile,
+  getTerrainTileBounds,
+  getTerrainTileId,
+  getTerrainTileNeighbours,
+  selectTerrainTiles,
+  stitchTerrainTile,
+} from "../utils/terrainQuadtree";
+import { createHeightmapGeometry } from "./Terrain";
+
+// Tile loads in flight at once; the rest wait so that stale requests don't pile up
+const MAX_TILE_REQUESTS = 2;
+// Loaded tiles kept for when the camera comes back
+const MAX_CACHED_TILES = 512;
+// How far (game units) the camera moves before the tiles are picked again
+const CAMERA_MOVE_THRESHOLD = 0.01;
+
+export interface TerrainTileSource {
+  /** Deepest quadtree level to refine to */
+  maxLevel: number;
+  /** Loads the height grid of a tile */
+  loadTile: (tile: TerrainTile) => Promise<HeightGrid>;
+}
+
+interface TerrainTilesProps {
+  source: TerrainTileSource;
+  material: THREE.Material;
+  undersideMaterial: THREE.Material;
+  fadeFraction: number;
+  /** Lowest and highest terrain height in game units */
+  heightRange: { min: number; max: number };
+  /** Current vertical exaggeration; the tiles are rebuilt when it changes */
+  verticalExaggeration: number;
+}
+
+const sameTiles = (a: TerrainTile[], b: TerrainTile[]) =>
+  a.length === b.length && a.every((tile, i) => getTerrainTileId(tile) === getTerrainTileId(b[i]));
+
+/**
+ * Terrain drawn as quadtree tiles that are refined near the camera. Tiles are
+ * loaded on demand and their edges are stitched to their neighbours.
+ */
+export function TerrainTiles({
+  source,
+  material,
+  undersideMaterial,
+  fadeFraction,
+  heightRange,
+  verticalExaggeration,
+}: TerrainTilesProps) {
+  const grids = useRef(new Map<string, HeightGrid>());
+  const loading = useRef(new Set<string>());
+  const failed = useRef(new Set<string>());
+  const geometries = useRef(new Map<string, THREE.BufferGeometry>());
+  const lastCamera = useRef(new THREE.Vector3());
+  const needsUpdate = useRef(true);
+  const [tiles, setTiles] = useState<TerrainTile[]>([]);
+
+  // Loads that finish after the map changed are dropped
+  const generation = useRef(0);
+
+  // Start over for a new map
+  useEffect(() => {
+    grids.current = new Map();
+    loading.current = new Set();
+    failed.current = new Set();
+    needsUpdate.current = true;
+    setTiles([]);
+    return () => {
+      generation.current++;
+    };
+  }, [source]);
+
+  const requestTile = (tile: TerrainTile) => {
+    const id = getTerrainTileId(tile);
+    const requestGeneration = generation.current;
+    loading.current.add(id);
+    source
+      .loadTile(tile)
+      .then((grid) => {
+        if (requestGeneration !== generation.current) return;
+        grids.current.set(id, grid);
+      })
+      .catch((error) => {
+        if (requestGeneration !== generation.current) return;
+        console.error(`Failed to load terrain tile ${id}:`, error);
+        failed.current.add(id);
+      })
+      .finally(() => {
+        if (requestGeneration !== generation.current) return;
+        loading.current.delete(id);
+        needsUpdate.current = true;
+      });
+  };
+
+  // Re-pick the tiles when the camera moves or a tile finishes loading
+  useFrame(({ camera }) => {
+    if (!needsUpdate.current && camera.position.distanceTo(lastCamera.current) < CAMERA_MOVE_THRESHOLD) {
+      return;
+    }
+    needsUpdate.current = false;
+    lastCamera.current.copy(camera.position);
+
+    const selection = selectTerrainTiles(camera.position, source.maxLevel, heightRange, (tile) =>
+      grids.current.has(getTerrainTileId(tile)),
+    );
+    for (const tile of selection.wanted) {
+      if (loading.current.size >= MAX_TILE_REQUESTS) break;
+      const id = getTerrainTileId(tile);
+      if (loading.current.has(id) || failed.current.has(id)) continue;
+      requestTile(tile);
+    }
+
+    // Forget the oldest tiles that aren't drawn
+    if (grids.current.size > MAX_CACHED_TILES) {
+      const drawn = new Set(selection.tiles.map(getTerrainTileId));
+      for (const id of grids.current.keys()) {
+        if (grids.current.size <= MAX_CACHED_TILES) break;
+        if (!drawn.has(id)) grids.current.delete(id);
+      }
+    }
+
+    setTiles((prev) => (sameTiles(prev, selection.tiles) ? prev : selection.tiles));
+  });
+
+  // A tile's geometry depends on its neighbours through the stitching, so
+  // it is reused only while they stay the same
+  const meshes = useMemo(() => {
+    const getGrid = (tile: TerrainTile) => grids.current.get(getTerrainTileId(tile))!;
+    const next = new Map<string, THREE.BufferGeometry>();
+    for (const tile of tiles) {
+      const key = [
+        verticalExaggeration,
+        ...getTerrainTileNeighbours(tile, tiles).map(getTerrainTileId),
+        getTerrainTileId(tile),
+      ].join("|");
+      let geometry = geometries.current.get(key);
+      if (!geometry) {
+        const { minX, minZ } = getTerrainTileBounds(tile);
+        geometry = createHeightmapGeometry(
+          stitchTerrainTile(tile, tiles, getGrid),
+          verticalExaggeration,
+          fadeFraction,
+          minX,
+          minZ,
+        );
+      }
+      next.set(key, geometry);
+    }
+    geometries.current.forEach((geometry, key) => {
+      if (!next.has(key)) geometry.dispose();
+    });
+    geometries.current = next;
+    return Array.from(next);
+  }, [tiles, verticalExaggeration, fadeFraction]);
+
+  useEffect(
+    () => () => {
+      geometries.current.forEach((geometry) => geometry.dispose());
+      geometries.current = new Map();
+    },
+    [],
+  );
+
+  return (
+    <group>
+      {meshes.map(([key, geometry]) => (
+        <group key={key}>
+          <mesh geometry={geometry} material={material} receiveShadow />
+          <mesh geometry={geometry} material={undersideMaterial} />
+        </group>
+      ))}
+    </group>
+  );
+}
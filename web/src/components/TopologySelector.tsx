@@ -1,15 +1,42 @@
 import React from 'react';
+import { HeightmapEncoding, TileGridRange } from '../utils/heightmapLoader';
+import { GeoBounds, GeoReference } from '../utils/geotiff';
+import { TerrainFilter } from '../utils/terrainFilters';
+
+export interface PointOfInterest {
+  name: string;
+  x: number; // World X coordinate in km
+  y: number; // World Y coordinate in km
+  color?: string;
+}
 
 export interface TopologyOption {
   id: string;
   name: string;
-  file: string;
+  file: string; // Heightmap file, or a {z}/{x}/{y} template when tiles is set
+  fileName?: string; // Original file name when file is an object URL (e.g. for .hgt detection)
+  encoding?: HeightmapEncoding; // Pixel encoding of image heightmaps (default: grayscale)
+  tiles?: TileGridRange; // Range of tiles to stitch from the file template
+  crop?: GeoBounds; // Lat/lon window to crop SRTM .hgt tiles to
   description?: string;
   viewWorldSize?: number; // Span of the view in world km
   uCenter?: number; // Center of the view in heightmap image (0-1)
   vCenter?: number; // Center of the view in heightmap image (0-1)
   sourceWorldSizeX?: number; // Total world width of the source image in km
   sourceWorldSizeY?: number; // Total world height of the source image in km
+  minElevationM?: number; // Real elevation of the lowest heightmap value in metres
+  maxElevationM?: number; // Real elevation of the highest heightmap value in metres
+  verticalExaggeration?: number; // Initial height exaggeration (default: 1, true to scale)
+  filters?: TerrainFilter[]; // Terrain filter chain, in order (default: a light Gaussian blur)
+  lodLevels?: number; // Quadtree levels of terrain tiles refined near the camera (default: 0, a single mesh)
+  meshMaxErrorM?: number; // Build an adaptive mesh within this vertical error in metres (default: a uniform grid)
+  georeference?: GeoReference; // Real-world bounds and CRS of the source heightmap
+  demoGpsSpanM?: number; // Demo positioning instead: the first GPS fix is the view center and this many metres span the view
+  trails?: string[]; // Trail CSV files (world km unless trailsEpsg is set), relative to the public folder
+  trailsEpsg?: number; // CRS of the trail files' x,y columns, e.g. 4326 (lon,lat) or 28356 (MGA56); needs a georeference
+  pois?: PointOfInterest[]; // Points of interest shown as pins
+  showWater?: boolean; // Whether water is shown when the map is opened
+  showSummit?: boolean; // Mark the highest point inside the map circle
 }
 
 interface TopologySelectorProps {
@@ -17,14 +44,35 @@ interface TopologySelectorProps {
   selectedId: string;
   onSelect: (id: string) => void;
   disabled?: boolean;
+  errors?: string[]; // Catalog problems to show below the selector
+  onImport?: (file: File) => void; // Called with a .trailmap bundle picked by the user
+  onExport?: () => void; // Export the selected map as a .trailmap bundle
+  onClearCache?: () => void; // Forget the processed terrain of maps viewed before
 }
 
+export const actionButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  fontSize: '12px',
+  fontFamily: 'monospace',
+  cursor: 'pointer',
+  backgroundColor: '#808080',
+  border: 'none',
+  color: 'white',
+  borderRadius: '4px',
+};
+
 export const TopologySelector: React.FC<TopologySelectorProps> = ({
   options,
   selectedId,
   onSelect,
   disabled = false,
+  errors = [],
+  onImport,
+  onExport,
+  onClearCache,
 }) => {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
   return (
     <div
       style={{
@@ -106,6 +154,60 @@ export const TopologySelector: React.FC<TopologySelectorProps> = ({
             Loading...
           </div>
         )}
+        {(onImport || onExport || onClearCache) && (
+          <div style={{ marginTop: '8px', display: 'flex', gap: '6px' }}>
+            {onImport && (
+              <>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={disabled}
+                  style={actionButtonStyle}
+                >
+                  Import map
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".trailmap,.zip"
+                  style={{ display: 'none' }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    // Reset so that picking the same file again still triggers a change
+                    e.target.value = '';
+                    if (file) onImport(file);
+                  }}
+                />
+              </>
+            )}
+            {onExport && (
+              <button onClick={onExport} disabled={disabled} style={actionButtonStyle}>
+                Export map
+              </button>
+            )}
+            {onClearCache && (
+              <button onClick={onClearCache} style={actionButtonStyle}>
+                Clear cache
+              </button>
+            )}
+          </div>
+        )}
+        {errors.length > 0 && (
+          <ul
+            style={{
+              marginTop: '8px',
+              paddingLeft: '16px',
+              maxWidth: '260px',
+              maxHeight: '120px',
+              overflowY: 'auto',
+              fontSize: '11px',
+              color: '#d32f2f',
+            }}
+          >
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
       </div>
     </div>
   );
@@ -113,19 +113,22 @@ function createTrailGeometry(params: TrailMeshParams): THREE.BufferGeometry {
 
   // 2) All mesh points within the corridor (distance to path <= width/2).
   //    Store (r,c) so we can use grid connectivity for triangulation.
-  const mapPoints = terrainSampler.mapPoints;
-  const rows = mapPoints.length;
-  const cols = mapPoints[0]?.length ?? 0;
-  const included: { p: Point; r: number; c: number }[] = [];
+  const grid = terrainSampler.grid;
+  const rows = grid.height;
+  const cols = grid.width;
+  const included: { x: number; z: number; r: number; c: number }[] = [];
   const coordToIndex = new Map<number, number>(); // key: r*cols+c
 
   for (let r = 0; r < rows; r++) {
+    const z = grid.gameYAt(r);
     for (let c = 0; c < cols; c++) {
-      const p = mapPoints[r][c];
-      if (distToPolyline(p.threeX, p.threeZ, center) <= halfWidth) {
+      // The trail isn't drawn over samples without data
+      if (!grid.isValid(c, r)) continue;
+      const x = grid.gameXAt(c);
+      if (distToPolyline(x, z, center) <= halfWidth) {
         const idx = included.length;
         coordToIndex.set(r * cols + c, idx);
-        included.push({ p, r, c });
+        included.push({ x, z, r, c });
       }
     }
   }
@@ -152,12 +155,12 @@ function createTrailGeometry(params: TrailMeshParams): THREE.BufferGeometry {
 
     if (i00 == null || i01 == null || i10 == null || i11 == null) continue;
 
-    const p00 = included[i00].p;
-    const p01 = included[i01].p;
-    const p10 = included[i10].p;
-    const p11 = included[i11].p;
-    const cx = (p00.threeX + p01.threeX + p10.threeX + p11.threeX) / 4;
-    const cz = (p00.threeZ + p01.threeZ + p10.threeZ + p11.threeZ) / 4;
+    const p00 = included[i00];
+    const p01 = included[i01];
+    const p10 = included[i10];
+    const p11 = included[i11];
+    const cx = (p00.x + p01.x + p10.x + p11.x) / 4;
+    const cz = (p00.z + p01.z + p10.z + p11.z) / 4;
     if (distToPolyline(cx, cz, center) > halfWidth) continue;
 
     indices.push(i00, i01, i11, i00, i11, i10);
@@ -165,10 +168,10 @@ function createTrailGeometry(params: TrailMeshParams): THREE.BufferGeometry {
 
   const positions = new Float32Array(included.length * 3);
   for (let j = 0; j < included.length; j++) {
-    const q = included[j].p;
-    positions[3 * j] = q.threeX;
-    positions[3 * j + 1] = q.threeY + TRAIL_HEIGHT_OFFSET;
-    positions[3 * j + 2] = q.threeZ;
+    const q = included[j];
+    positions[3 * j] = q.x;
+    positions[3 * j + 1] = grid.getGameZ(q.c, q.r, terrainSampler.verticalExaggeration) + TRAIL_HEIGHT_OFFSET;
+    positions[3 * j + 2] = q.z;
   }
 
   const geometry = new THREE.BufferGeometry();
@@ -200,7 +203,7 @@ export function Trail({
     loadTrailCSV(csvUrl).then((data) => {
       const trailCoordsVect3: THREE.Vector3[] = data.map(({ x, y }) => {
         const point = Point.fromWorldCoords(x, y, 0);
-        return new THREE.Vector3(point.threeX, point.threeY, point.threeZ);
+        return new THREE.Vector3(point.threeX, point.getThreeY(terrainSampler.verticalExaggeration), point.threeZ);
       });
 
       if (trailCoordsVect3.length < 2) return;
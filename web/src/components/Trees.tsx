@@ -42,15 +42,7 @@ function PineTrees({ terrainSampler, count = 75, showWater = true }: { terrainSa
     const tempMatrices = new Float32Array(count * 16);
     const tempObject = new THREE.Object3D();
     
-    let minH = Infinity;
-    let maxH = -Infinity;
-    const points = terrainSampler.mapPoints;
-    for (const row of points) {
-      for (const p of row) {
-        if (p.gameZ < minH) minH = p.gameZ;
-        if (p.gameZ > maxH) maxH = p.gameZ;
-      }
-    }
+    const { min: minH, max: maxH } = terrainSampler.getGameHeightRange();
 
     const minTreeHeightRatio = showWater ? 0.2 : 0.02;
     const minTreeHeight = minH + (maxH - minH) * minTreeHeightRatio;
@@ -72,6 +64,8 @@ function PineTrees({ terrainSampler, count = 75, showWater = true }: { terrainSa
 
       const coord = Coordinate.fromGameCoords(x, z);
       const h = terrainSampler.getHeightAt(coord);
+      // No trees where the map has no data
+      if (h === null) continue;
 
       // Avoid placing trees on the trail if possible
       // (This is a bit hard without the trail texture here, but we can just use randomness)
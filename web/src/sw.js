@@ -0,0 +1,115 @@
+/* Service worker: keeps the app working without a network connection.
+ *
+ * - The app shell (index.html, the bundle, the catalog, manifest and icon) is
+ *   precached when the worker installs. The list is filled in at build time by
+ *   the precache plugin in vite.config.ts, which also makes every build a new
+ *   worker.
+ * - Maps downloaded for offline use live in one cache per topology
+ *   ("trailmap-map:<id>", see src/utils/offlineMaps.ts) and are served from
+ *   there first.
+ * - Pages and the catalog are fetched from the network first, so that updates
+ *   show up when online, and fall back to the cache.
+ *
+ * Only served in production builds; see main.tsx.
+ */
+
+const PRECACHE_FILES = self.__PRECACHE_FILES__;
+const SHELL_CACHE = `trailmap-shell-${self.__PRECACHE_VERSION__}`;
+const SHELL_PREFIX = "trailmap-shell-";
+
+const scopeUrl = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_FILES.map(scopeUrl)))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name.startsWith(SHELL_PREFIX) && name !== SHELL_CACHE)
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+/** Fetches from the network, keeping a copy in a cache; falls back to any cached copy. */
+async function networkFirst(request, cacheName) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * Answers a Range request from a cached copy of the whole file, as COG
+ * streaming reads heightmaps in byte ranges.
+ */
+async function rangeResponse(cached, rangeHeader) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader.trim());
+  const body = await cached.arrayBuffer();
+  const size = body.byteLength;
+  let start = match && match[1] !== "" ? Number(match[1]) : NaN;
+  let end = match && match[2] !== "" ? Number(match[2]) : size - 1;
+  if (match && match[1] === "" && match[2] !== "") {
+    // Suffix range: the last N bytes
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  }
+  if (!match || Number.isNaN(start) || start >= size || end < start) {
+    return new Response(null, { status: 416, headers: { "Content-Range": `bytes */${size}` } });
+  }
+  end = Math.min(end, size - 1);
+  const headers = new Headers(cached.headers);
+  headers.set("Content-Range", `bytes ${start}-${end}/${size}`);
+  headers.set("Content-Length", String(end - start + 1));
+  return new Response(body.slice(start, end + 1), { status: 206, statusText: "Partial Content", headers });
+}
+
+/** Serves a file from the caches when it is there, else from the network. */
+async function cacheFirst(request) {
+  // Matched by URL alone, so that HEAD and Range requests find the file too
+  const cached = await caches.match(request.url);
+  if (!cached) return fetch(request);
+  // HEAD requests check a file's version (see terrainCache.ts)
+  if (request.method === "HEAD") {
+    return new Response(null, { status: cached.status, headers: cached.headers });
+  }
+  const range = request.headers.get("Range");
+  return range ? rangeResponse(cached, range) : cached;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" && request.method !== "HEAD") return;
+  // Other origins too, as maps built from tile servers are downloaded as well
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request).catch(async () => (await caches.match(scopeUrl("index.html"))) ?? Response.error()),
+    );
+  } else if (request.method === "GET" && url.href === scopeUrl("topologies.json")) {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  } else {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -2,6 +2,14 @@ import {
   WORLD_TO_GAME_SCALE_RATIO,
   GAME_TO_WORLD_SCALE_RATIO,
 } from "./constants";
+import { GPSPosition } from "./gpsUtils";
+import {
+  MapFrame,
+  ProjectedPoint,
+  WGS84_EPSG,
+  mapWorldToProjected,
+  projectedToMapWorld,
+} from "./projection";
 
 /**
  * Represents a 2D coordinate with conversions between real-world and game coordinate systems.
@@ -77,6 +85,24 @@ export class Coordinate {
     this._worldY = value * GAME_TO_WORLD_SCALE_RATIO;
   }
 
+  /**
+   * Gets the coordinate in a CRS.
+   * @param frame - Georeference of the map the coordinate is on
+   * @param epsg - EPSG code of the CRS (default: WGS84, x = longitude, y = latitude)
+   */
+  toProjected(frame: MapFrame, epsg: number = WGS84_EPSG): ProjectedPoint {
+    return mapWorldToProjected(this.worldX, this.worldY, frame, epsg);
+  }
+
+  /**
+   * Gets the WGS84 latitude and longitude.
+   * @param frame - Georeference of the map the coordinate is on
+   */
+  toLatLon(frame: MapFrame): GPSPosition {
+    const { x, y } = this.toProjected(frame, WGS84_EPSG);
+    return { latitude: y, longitude: x };
+  }
+
   /**
    * Creates a Point from world coordinates.
    */
@@ -84,6 +110,24 @@ export class Coordinate {
     return new Coordinate(x, y);
   }
 
+  /**
+   * Creates a Coordinate from coordinates in a CRS.
+   * @param epsg - EPSG code of the CRS (see projection.ts)
+   * @param frame - Georeference of the map to place the point on
+   */
+  static fromProjected(x: number, y: number, epsg: number, frame: MapFrame): Coordinate {
+    const world = projectedToMapWorld({ x, y }, epsg, frame);
+    return new Coordinate(world.x, world.y);
+  }
+
+  /**
+   * Creates a Coordinate from WGS84 latitude and longitude.
+   * @param frame - Georeference of the map to place the point on
+   */
+  static fromLatLon(latitude: number, longitude: number, frame: MapFrame): Coordinate {
+    return Coordinate.fromProjected(longitude, latitude, WGS84_EPSG, frame);
+  }
+
   /**
    * Creates a Point from game coordinates.
    */
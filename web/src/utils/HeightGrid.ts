@@ -0,0 +1,138 @@
+import {
+  TOPOMAP_WORLD_SIZE_X,
+  TOPOMAP_WORLD_SIZE_Y,
+  WORLD_TO_GAME_SCALE_RATIO,
+  WORLD_TO_GAME_HEIGHT_SCALE_RATIO,
+} from "./constants";
+import { Point } from "./Point";
+
+/**
+ * A regular grid of terrain heights backed by a single Float32Array.
+ *
+ * Samples are spaced evenly over the extent, with the first and last
+ * column/row lying on its edges, so sample (col, row) sits at
+ * worldX = col / (width - 1) * extentX and worldY = row / (height - 1) * extentY.
+ * Heights are stored in world units (kilometres); game-unit accessors read the
+ * current scale ratios, so they follow changes to the world scaling, and take
+ * the vertical exaggeration to apply to heights.
+ *
+ * An optional validity mask marks samples without data (nodata in the source,
+ * or outside the source image). Masked samples still hold a finite height so
+ * that they can be meshed, but should not be drawn or sampled.
+ */
+export class HeightGrid {
+  /** Number of samples across */
+  readonly width: number;
+  /** Number of samples down */
+  readonly height: number;
+  /** World width covered by the grid in km */
+  readonly extentX: number;
+  /** World height covered by the grid in km */
+  readonly extentY: number;
+  /** Heights in world units (km), row-major from the top-left sample */
+  readonly data: Float32Array;
+  /** 1 for samples with data and 0 for masked ones, or null when all are valid */
+  readonly valid: Uint8Array | null;
+
+  constructor(
+    width: number,
+    height: number,
+    data: Float32Array = new Float32Array(width * height),
+    extentX: number = TOPOMAP_WORLD_SIZE_X,
+    extentY: number = TOPOMAP_WORLD_SIZE_Y,
+    valid: Uint8Array | null = null,
+  ) {
+    if (data.length !== width * height) {
+      throw new Error(`HeightGrid: expected ${width * height} heights, got ${data.length}`);
+    }
+    if (valid && valid.length !== data.length) {
+      throw new Error(`HeightGrid: expected ${data.length} mask entries, got ${valid.length}`);
+    }
+    this.width = width;
+    this.height = height;
+    this.data = data;
+    this.extentX = extentX;
+    this.extentY = extentY;
+    this.valid = valid;
+  }
+
+  /** Whether a sample has data. */
+  isValid(col: number, row: number): boolean {
+    return !this.valid || this.valid[row * this.width + col] === 1;
+  }
+
+  /** Index of a sample in data. */
+  index(col: number, row: number): number {
+    return row * this.width + col;
+  }
+
+  /** Height of a sample in world units (km). */
+  getWorldZ(col: number, row: number): number {
+    return this.data[row * this.width + col];
+  }
+
+  /** Sets the height of a sample in world units (km). */
+  setWorldZ(col: number, row: number, value: number) {
+    this.data[row * this.width + col] = value;
+  }
+
+  /** World X of a column in km. */
+  worldXAt(col: number): number {
+    return (col / (this.width - 1)) * this.extentX;
+  }
+
+  /** World Y of a row in km. */
+  worldYAt(row: number): number {
+    return (row / (this.height - 1)) * this.extentY;
+  }
+
+  /** Game X of a column (threejs X). */
+  gameXAt(col: number): number {
+    return this.worldXAt(col) * WORLD_TO_GAME_SCALE_RATIO;
+  }
+
+  /** Game Y of a row (threejs Z). */
+  gameYAt(row: number): number {
+    return this.worldYAt(row) * WORLD_TO_GAME_SCALE_RATIO;
+  }
+
+  /**
+   * Height of a sample in game units (threejs Y).
+   * @param verticalExaggeration - Exaggeration to scale the height by
+   */
+  getGameZ(col: number, row: number, verticalExaggeration: number): number {
+    return this.data[row * this.width + col] * WORLD_TO_GAME_HEIGHT_SCALE_RATIO * verticalExaggeration;
+  }
+
+  /** A sample as a Point, for handing positions to code outside the grid. */
+  getPoint(col: number, row: number): Point {
+    return Point.fromWorldCoords(this.worldXAt(col), this.worldYAt(row), this.getWorldZ(col, row));
+  }
+
+  /** Lowest and highest height of the valid samples in world units (km). */
+  getWorldHeightRange(): { min: number; max: number } {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < this.data.length; i++) {
+      if (this.valid && this.valid[i] === 0) continue;
+      const value = this.data[i];
+      if (Number.isNaN(value)) continue;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    return { min, max };
+  }
+
+  /**
+   * Lowest and highest height of the valid samples in game units.
+   * @param verticalExaggeration - Exaggeration to scale the heights by
+   */
+  getGameHeightRange(verticalExaggeration: number): { min: number; max: number } {
+    const { min, max } = this.getWorldHeightRange();
+    const heightScale = WORLD_TO_GAME_HEIGHT_SCALE_RATIO * verticalExaggeration;
+    return {
+      min: min * heightScale,
+      max: max * heightScale,
+    };
+  }
+}
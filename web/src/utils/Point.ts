@@ -4,6 +4,7 @@ import {
   GAME_TO_WORLD_SCALE_RATIO,
 } from "./constants";
 import { Coordinate } from "./Coordinate";
+import { MapFrame, WGS84_EPSG, projectedToMapWorld } from "./projection";
 
 /**
  * Represents a 3D point with X, Y coordinates (via Coordinate) plus a height/Z component.
@@ -31,17 +32,15 @@ export class Point extends Coordinate {
     this._worldZ = value;
   }
 
-  /** Gets the Z/height coordinate in game units. */
-  get gameZ(): number {
+  /**
+   * Gets the Z/height coordinate in game units.
+   * @param verticalExaggeration - Exaggeration to scale the height by
+   */
+  getGameZ(verticalExaggeration: number): number {
     if (this._worldZ === null) {
       throw new Error("Z coordinate has not been initialized");
     }
-    return this._worldZ * WORLD_TO_GAME_HEIGHT_SCALE_RATIO;
-  }
-
-  /** Sets the Z/height coordinate from game units. */
-  set gameZ(value: number) {
-    this._worldZ = value * GAME_TO_WORLD_HEIGHT_SCALE_RATIO;
+    return this._worldZ * WORLD_TO_GAME_HEIGHT_SCALE_RATIO * verticalExaggeration;
   }
 
   /**
@@ -58,12 +57,10 @@ export class Point extends Coordinate {
   /**
    * Gets the Y/"distance up in the screen plane" coordinate in game units in
    * threejs render axes.
+   * @param verticalExaggeration - Exaggeration to scale the height by
    */
-  get threeY(): number {
-    if (this._worldZ === null) {
-      throw new Error("Z coordinate has not been initialized");
-    }
-    return this.gameZ;
+  getThreeY(verticalExaggeration: number): number {
+    return this.getGameZ(verticalExaggeration);
   }
 
   /**
@@ -84,14 +81,35 @@ export class Point extends Coordinate {
     return new Point(x, y, z);
   }
 
+  /**
+   * Creates a Point from coordinates in a CRS.
+   * @param z - Height in world units (km)
+   * @param epsg - EPSG code of the CRS (see projection.ts)
+   * @param frame - Georeference of the map to place the point on
+   */
+  static fromProjected(x: number, y: number, z: number, epsg: number, frame: MapFrame): Point {
+    const world = projectedToMapWorld({ x, y }, epsg, frame);
+    return new Point(world.x, world.y, z);
+  }
+
+  /**
+   * Creates a Point from WGS84 latitude and longitude.
+   * @param z - Height in world units (km)
+   * @param frame - Georeference of the map to place the point on
+   */
+  static fromLatLon(latitude: number, longitude: number, z: number, frame: MapFrame): Point {
+    return Point.fromProjected(longitude, latitude, z, WGS84_EPSG, frame);
+  }
+
   /**
    * Creates a Point from game coordinates.
+   * @param verticalExaggeration - Exaggeration the game height z is scaled by
    */
-  static fromGameCoords(x: number, y: number, z: number): Point {
+  static fromGameCoords(x: number, y: number, z: number, verticalExaggeration: number): Point {
     return new Point(
       x * GAME_TO_WORLD_SCALE_RATIO,
       y * GAME_TO_WORLD_SCALE_RATIO,
-      z * GAME_TO_WORLD_HEIGHT_SCALE_RATIO,
+      (z * GAME_TO_WORLD_HEIGHT_SCALE_RATIO) / verticalExaggeration,
     );
   }
 }
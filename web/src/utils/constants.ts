@@ -10,13 +10,26 @@ export const TOPOMAP_GAME_SIZE_LIMIT_X = 10;
 export const TOPOMAP_GAME_SIZE_LIMIT_Y = 10;
 export const TOPOMAP_GAME_SIZE_LIMIT_Z = 3;
 
-// Scaling factors - these need to be recalculatable
+// Elevation range in km used when a map has no elevation metadata (SRTM -5m to 884m)
+export const DEFAULT_TOPOMAP_WORLD_SIZE_Z = 0.889;
+
+// Limits of the vertical exaggeration slider
+export const MIN_VERTICAL_EXAGGERATION = 0.5;
+export const MAX_VERTICAL_EXAGGERATION = 5;
+
+// Scaling factors - these need to be recalculatable. The height ratios are
+// true to scale; the vertical exaggeration is passed to whatever computes game
+// heights (HeightGrid.getGameZ, Point.getGameZ, the terrain geometry).
 export let WORLD_TO_GAME_SCALE_RATIO = 1.0;
 export let WORLD_TO_GAME_HEIGHT_SCALE_RATIO = 1.0;
 export let GAME_TO_WORLD_SCALE_RATIO = 1.0;
 export let GAME_TO_WORLD_HEIGHT_SCALE_RATIO = 1.0;
 
-export function updateWorldScaling(sizeX: number, sizeY: number, sizeZ: number = 0.889) {
+export function updateWorldScaling(
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number = DEFAULT_TOPOMAP_WORLD_SIZE_Z,
+) {
   TOPOMAP_WORLD_SIZE_X = sizeX;
   TOPOMAP_WORLD_SIZE_Y = sizeY;
   TOPOMAP_WORLD_SIZE_Z = sizeZ;
@@ -35,8 +48,4 @@ export function updateWorldScaling(sizeX: number, sizeY: number, sizeZ: number =
 // Initialize with default values
 updateWorldScaling(10, 10);
 
-export const GAUSSIAN_ENABLED = true;
-export const GAUSSIAN_KERNEL_SIZE = 5;
-export const GAUSSIAN_SIGMA = 1.5;
-
 export const MAP_AUTO_ROTATE_ENABLED = false;
@@ -0,0 +1,107 @@
+import { TopologyOption } from "../components/TopologySelector";
+
+/**
+ * Topologies built from files the user drops onto the page. The files are
+ * exposed as object URLs so that they go through the same loaders as the
+ * catalog maps.
+ */
+
+export const CUSTOM_TOPOLOGY_ID = "custom";
+
+// Real distance spanning a custom map in demo positioning
+const DEMO_GPS_SPAN_M = 20;
+
+export interface CustomMapSettings {
+  viewWorldSize: number; // Span of the view in world km
+  sourceWorldSize: number; // Width and height of the whole heightmap in world km
+  uCenter: number; // Center of the view in the heightmap (0-1)
+  vCenter: number; // Center of the view in the heightmap (0-1)
+}
+
+export const DEFAULT_CUSTOM_MAP_SETTINGS: CustomMapSettings = {
+  viewWorldSize: 10,
+  sourceWorldSize: 10,
+  uCenter: 0.5,
+  vCenter: 0.5,
+};
+
+export interface DroppedFiles {
+  heightmap: File | null;
+  trails: File[];
+  bundles: File[];
+  /** Files that were dropped but won't be used */
+  ignored: File[];
+}
+
+/**
+ * Sorts dropped files by role: .csv files are trails, .trailmap/.zip files are
+ * bundles, and the first other file is the heightmap (image, GeoTIFF or .hgt).
+ */
+export function sortDroppedFiles(files: Iterable<File>): DroppedFiles {
+  const sorted: DroppedFiles = { heightmap: null, trails: [], bundles: [], ignored: [] };
+  for (const file of files) {
+    const name = file.name.toLowerCase();
+    if (name.endsWith(".csv")) {
+      sorted.trails.push(file);
+    } else if (name.endsWith(".trailmap") || name.endsWith(".zip")) {
+      sorted.bundles.push(file);
+    } else if (!sorted.heightmap) {
+      sorted.heightmap = file;
+    } else {
+      sorted.ignored.push(file);
+    }
+  }
+  return sorted;
+}
+
+/**
+ * Applies view settings to a custom topology.
+ * @param option - The custom topology
+ * @param settings - View size and center to use
+ */
+export function applyCustomMapSettings(option: TopologyOption, settings: CustomMapSettings): TopologyOption {
+  return {
+    ...option,
+    viewWorldSize: settings.viewWorldSize,
+    sourceWorldSizeX: settings.sourceWorldSize,
+    sourceWorldSizeY: settings.sourceWorldSize,
+    uCenter: settings.uCenter,
+    vCenter: settings.vCenter,
+  };
+}
+
+/**
+ * Builds a topology from dropped files.
+ * @param heightmap - Heightmap image or DEM file
+ * @param trails - Trail CSV files (world km)
+ * @param settings - View size and center to use
+ */
+export function createCustomTopology(
+  heightmap: File,
+  trails: File[],
+  settings: CustomMapSettings = DEFAULT_CUSTOM_MAP_SETTINGS,
+): TopologyOption {
+  return applyCustomMapSettings(
+    {
+      id: CUSTOM_TOPOLOGY_ID,
+      name: `Custom: ${heightmap.name}`,
+      file: URL.createObjectURL(heightmap),
+      fileName: heightmap.name,
+      description: "Dropped files",
+      trails: trails.map((trail) => URL.createObjectURL(trail)),
+      // Dropped files carry no georeference the app reads
+      demoGpsSpanM: DEMO_GPS_SPAN_M,
+    },
+    settings,
+  );
+}
+
+/**
+ * Releases the object URLs held by a custom topology.
+ * @param option - A topology from createCustomTopology
+ */
+export function revokeCustomTopology(option: TopologyOption) {
+  for (const url of [option.file, ...(option.trails ?? [])]) {
+    if (url.startsWith("blob:")) URL.revokeObjectURL(url);
+  }
+}
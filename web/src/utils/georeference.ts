@@ -0,0 +1,115 @@
+import { TopologyOption } from "../components/TopologySelector";
+import { GPSPosition } from "./gpsUtils";
+import { distanceMeters } from "./locationSource";
+import { MapFrame, WGS84_EPSG, mapWorldToProjected, projectedToMapWorld } from "./projection";
+import { getTopologyView } from "./topologyCatalog";
+import { MapPosition } from "./mockGps";
+
+/**
+ * Placing GPS fixes on georeferenced maps.
+ *
+ * A topology's georeference gives the outer bounds of its whole heightmap in
+ * a CRS. A fix is projected into that CRS, located in the heightmap's UV
+ * space, and from there in the map's view window, which gives its world
+ * position in km from the view's north-west corner.
+ */
+
+/**
+ * How a topology's world km relate to its georeference, or null when it has
+ * none.
+ * @param option - The topology
+ */
+export function getTopologyMapFrame(option: TopologyOption): MapFrame | null {
+  if (!option.georeference) return null;
+  const { viewSize, window } = getTopologyView(option);
+  return { georeference: option.georeference, window, viewSize };
+}
+
+/**
+ * World position of a fix on a georeferenced map. The position isn't clamped,
+ * so it lies outside [0, viewSize] when the fix is off the map.
+ * @param position - WGS84 latitude and longitude
+ * @param frame - The map, from getTopologyMapFrame
+ */
+export function georeferencedToWorld(position: GPSPosition, frame: MapFrame): MapPosition {
+  return projectedToMapWorld({ x: position.longitude, y: position.latitude }, WGS84_EPSG, frame);
+}
+
+/** Where a world position lies relative to the round map that is shown */
+export interface MapPlacement {
+  /** Inside the map circle, where the terrain is drawn */
+  inCircle: boolean;
+  /** Inside the square view, where the terrain has heights */
+  inExtent: boolean;
+  /** Distance to the edge of the circle in world km; 0 inside it */
+  distance: number;
+  /** Bearing from the position to the map center in degrees clockwise from (grid) north */
+  bearingDeg: number;
+}
+
+/**
+ * Where a world position lies relative to a map's circle.
+ * @param position - World position in km
+ * @param viewSize - World size of the view in km
+ */
+export function getMapPlacement(position: MapPosition, viewSize: number): MapPlacement {
+  const radius = viewSize / 2;
+  const dx = radius - position.x;
+  const dy = radius - position.y;
+  const fromCenter = Math.hypot(dx, dy);
+  return {
+    inCircle: fromCenter <= radius,
+    inExtent: position.x >= 0 && position.x <= viewSize && position.y >= 0 && position.y <= viewSize,
+    distance: Math.max(0, fromCenter - radius),
+    // Y increases south
+    bearingDeg: ((Math.atan2(dx, -dy) * 180) / Math.PI + 360) % 360,
+  };
+}
+
+/**
+ * Georeferenced maps whose circle contains a fix.
+ * @param options - The maps to search
+ * @param position - WGS84 latitude and longitude
+ */
+export function findTopologiesContaining(options: TopologyOption[], position: GPSPosition): TopologyOption[] {
+  return options.filter((option) => {
+    const frame = getTopologyMapFrame(option);
+    return frame !== null && getMapPlacement(georeferencedToWorld(position, frame), frame.viewSize).inCircle;
+  });
+}
+
+/**
+ * Real distance of a world km on a georeferenced map, measured across the
+ * middle of the view.
+ * @param frame - The map, from getTopologyMapFrame
+ */
+export function getFrameMetersPerWorldKm(frame: MapFrame): number {
+  const toPosition = (x: number) => {
+    const { x: longitude, y: latitude } = mapWorldToProjected(x, frame.viewSize / 2, frame, WGS84_EPSG);
+    return { latitude, longitude };
+  };
+  return distanceMeters(toPosition(0), toPosition(frame.viewSize)) / frame.viewSize;
+}
+
+/**
+ * The georeferenced map to show for a fix: one whose circle contains it (the
+ * first, when several do), else the one with the nearest edge. Null when no
+ * map is georeferenced.
+ * @param options - The maps to choose from
+ * @param position - WGS84 latitude and longitude
+ */
+export function chooseTopologyForPosition(options: TopologyOption[], position: GPSPosition): TopologyOption | null {
+  let best: TopologyOption | null = null;
+  let bestDistance = Infinity;
+  for (const option of options) {
+    const frame = getTopologyMapFrame(option);
+    if (!frame) continue;
+    const { distance } = getMapPlacement(georeferencedToWorld(position, frame), frame.viewSize);
+    const distanceM = distance * getFrameMetersPerWorldKm(frame);
+    if (distanceM < bestDistance) {
+      best = option;
+      bestDistance = distanceM;
+    }
+  }
+  return best;
+}
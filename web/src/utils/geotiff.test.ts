@@ -0,0 +1,230 @@
+import { describe, expect, it } from "vitest";
+import { decodeGeoTIFF, decodeLZW, isGeoTIFF } from "./geotiff";
+
+// TIFF field types
+const SHORT = 3;
+const LONG = 4;
+const DOUBLE = 12;
+const ASCII = 2;
+
+interface Tag {
+  tag: number;
+  type: number;
+  values: number[] | string;
+}
+
+/**
+ * Writes a little-endian classic TIFF with a single strip holding all of the
+ * image's bytes. The strip offset and byte count tags are added here.
+ */
+function buildTiff(tags: Tag[], strip: Uint8Array): ArrayBuffer {
+  const all: Tag[] = [
+    ...tags,
+    { tag: 273, type: LONG, values: [0] },
+    { tag: 279, type: LONG, values: [strip.length] },
+  ].sort((a, b) => a.tag - b.tag);
+
+  const fieldSize = (type: number) => (type === DOUBLE ? 8 : type === LONG ? 4 : type === SHORT ? 2 : 1);
+  const valueBytes = (t: Tag) =>
+    typeof t.values === "string" ? t.values.length + 1 : t.values.length * fieldSize(t.type);
+
+  const ifdOffset = 8;
+  const ifdSize = 2 + all.length * 12 + 4;
+  let extraOffset = ifdOffset + ifdSize;
+  const extraOffsets = all.map((t) => {
+    if (valueBytes(t) <= 4) return 0;
+    const at = extraOffset;
+    extraOffset += valueBytes(t) + (valueBytes(t) % 2);
+    return at;
+  });
+  const stripOffset = extraOffset;
+  all.find((t) => t.tag === 273)!.values = [stripOffset];
+
+  const buffer = new ArrayBuffer(stripOffset + strip.length);
+  const view = new DataView(buffer);
+  view.setUint8(0, 0x49);
+  view.setUint8(1, 0x49);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifdOffset, true);
+  view.setUint16(ifdOffset, all.length, true);
+
+  all.forEach((t, i) => {
+    const entry = ifdOffset + 2 + i * 12;
+    const count = typeof t.values === "string" ? t.values.length + 1 : t.values.length;
+    view.setUint16(entry, t.tag, true);
+    view.setUint16(entry + 2, t.type, true);
+    view.setUint32(entry + 4, count, true);
+    let at = valueBytes(t) <= 4 ? entry + 8 : extraOffsets[i];
+    if (extraOffsets[i]) view.setUint32(entry + 8, at, true);
+    if (typeof t.values === "string") {
+      for (const char of t.values) view.setUint8(at++, char.charCodeAt(0));
+      return;
+    }
+    for (const value of t.values) {
+      if (t.type === DOUBLE) view.setFloat64(at, value, true);
+      else if (t.type === LONG) view.setUint32(at, value, true);
+      else view.setUint16(at, value, true);
+      at += fieldSize(t.type);
+    }
+  });
+
+  new Uint8Array(buffer).set(strip, stripOffset);
+  return buffer;
+}
+
+function imageTags(width: number, height: number, bitsPerSample: number, sampleFormat: number): Tag[] {
+  return [
+    { tag: 256, type: SHORT, values: [width] },
+    { tag: 257, type: SHORT, values: [height] },
+    { tag: 258, type: SHORT, values: [bitsPerSample] },
+    { tag: 339, type: SHORT, values: [sampleFormat] },
+  ];
+}
+
+/** TIFF LZW encoder: MSB-first codes, starting with a clear code. */
+function encodeLZW(input: Uint8Array): Uint8Array {
+  const table = new Map<string, number>();
+  for (let i = 0; i < 256; i++) table.set(String(i), i);
+  let nextCode = 258;
+  let width = 9;
+  const codes: { code: number; width: number }[] = [{ code: 256, width }];
+
+  let current = "";
+  for (const byte of input) {
+    const extended = current === "" ? String(byte) : `${current},${byte}`;
+    if (table.has(extended)) {
+      current = extended;
+      continue;
+    }
+    codes.push({ code: table.get(current)!, width });
+    table.set(extended, nextCode++);
+    // The decoder adds each entry one code later, so switch when it will
+    if (nextCode >= 1 << width) width++;
+    current = String(byte);
+  }
+  codes.push({ code: table.get(current)!, width });
+  if (nextCode + 1 >= 1 << width) width++;
+  codes.push({ code: 257, width });
+
+  const totalBits = codes.reduce((sum, c) => sum + c.width, 0);
+  const out = new Uint8Array(Math.ceil(totalBits / 8));
+  let bitPos = 0;
+  for (const { code, width: w } of codes) {
+    for (let b = w - 1; b >= 0; b--) {
+      if ((code >> b) & 1) out[bitPos >>> 3] |= 0x80 >> (bitPos & 7);
+      bitPos++;
+    }
+  }
+  return out;
+}
+
+describe("isGeoTIFF", () => {
+  it("recognises both byte orders", () => {
+    expect(isGeoTIFF(new Uint8Array([0x49, 0x49, 42, 0, 8, 0, 0, 0]).buffer)).toBe(true);
+    expect(isGeoTIFF(new Uint8Array([0x4d, 0x4d, 0, 42, 0, 0, 0, 8]).buffer)).toBe(true);
+  });
+
+  it("rejects other files", () => {
+    expect(isGeoTIFF(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).buffer)).toBe(false);
+    expect(isGeoTIFF(new Uint8Array([0x49, 0x49, 42]).buffer)).toBe(false);
+  });
+});
+
+describe("decodeLZW", () => {
+  it("decodes repeated runs", () => {
+    const input = new TextEncoder().encode("TOBEORNOTTOBEORTOBEORNOT#aaaaaaaaaa");
+    expect(decodeLZW(encodeLZW(input), input.length)).toEqual(input);
+  });
+
+  it("follows the code width as the table grows", () => {
+    // Enough distinct pairs to go past 511 and 1023 table entries
+    const input = new Uint8Array(4000);
+    let seed = 1;
+    for (let i = 0; i < input.length; i++) {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      input[i] = (seed >> 16) % 16;
+    }
+    expect(decodeLZW(encodeLZW(input), input.length)).toEqual(input);
+  });
+});
+
+describe("decodeGeoTIFF", () => {
+  it("reads samples, nodata and georeferencing", async () => {
+    const values = [120, -5, 300, -9999, 42, 7];
+    const strip = new Uint8Array(values.length * 2);
+    const view = new DataView(strip.buffer);
+    values.forEach((value, i) => view.setInt16(i * 2, value, true));
+
+    const buffer = buildTiff(
+      [
+        ...imageTags(3, 2, 16, 2),
+        { tag: 33550, type: DOUBLE, values: [30, 30, 0] },
+        { tag: 33922, type: DOUBLE, values: [0, 0, 0, 500000, 7000000, 0] },
+        // ProjectedCSType = 28356 (MGA zone 56)
+        { tag: 34735, type: SHORT, values: [1, 1, 0, 1, 3072, 0, 1, 28356] },
+        { tag: 42113, type: ASCII, values: "-9999" },
+      ],
+      strip,
+    );
+
+    const raster = await decodeGeoTIFF(buffer);
+    expect(raster.width).toBe(3);
+    expect(raster.height).toBe(2);
+    expect(Array.from(raster.data)).toEqual(values);
+    expect(raster.noData).toBe(-9999);
+    expect(raster.georeference).toEqual({
+      epsg: 28356,
+      west: 500000,
+      north: 7000000,
+      east: 500090,
+      south: 6999940,
+    });
+  });
+
+  it("undoes PackBits and the horizontal predictor", async () => {
+    // Row [10, 12, 12, 12, 12, 15] differenced to [10, 2, 0, 0, 0, 3]
+    const strip = new Uint8Array([1, 10, 2, 0xfe, 0, 0, 3]);
+    const buffer = buildTiff(
+      [...imageTags(6, 1, 8, 1), { tag: 259, type: SHORT, values: [32773] }, { tag: 317, type: SHORT, values: [2] }],
+      strip,
+    );
+
+    const raster = await decodeGeoTIFF(buffer);
+    expect(Array.from(raster.data)).toEqual([10, 12, 12, 12, 12, 15]);
+    expect(raster.georeference).toBeNull();
+  });
+
+  it("undoes LZW and the floating point predictor", async () => {
+    const width = 4;
+    const rows = [
+      [101.5, 102.25, 99.75, -3.5],
+      [0, 1e-3, 8848.86, 12.125],
+    ];
+
+    // Split each row into big-endian byte planes and difference the bytes
+    const strip = new Uint8Array(width * rows.length * 4);
+    rows.forEach((row, r) => {
+      const sample = new DataView(new ArrayBuffer(4));
+      const rowStart = r * width * 4;
+      row.forEach((value, s) => {
+        sample.setFloat32(0, value, false);
+        for (let b = 0; b < 4; b++) strip[rowStart + b * width + s] = sample.getUint8(b);
+      });
+      for (let i = width * 4 - 1; i > 0; i--) {
+        strip[rowStart + i] = (strip[rowStart + i] - strip[rowStart + i - 1]) & 0xff;
+      }
+    });
+
+    const buffer = buildTiff(
+      [...imageTags(width, 2, 32, 3), { tag: 259, type: SHORT, values: [5] }, { tag: 317, type: SHORT, values: [3] }],
+      encodeLZW(strip),
+    );
+
+    const raster = await decodeGeoTIFF(buffer);
+    expect(Array.from(raster.data)).toEqual(rows.flat().map((value) => Math.fround(value)));
+  });
+
+  it("rejects files that aren't classic TIFFs", async () => {
+    await expect(decodeGeoTIFF(new Uint8Array(16).buffer)).rejects.toThrow("not a classic TIFF");
+  });
+});
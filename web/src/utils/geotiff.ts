@@ -0,0 +1,799 @@
+/**
+ * Minimal GeoTIFF decoder for single-band elevation rasters.
+ *
+ * Supports classic (non-Big) TIFF in either byte order, stripped or tiled
+ * layouts, no/LZW/Deflate/PackBits compression, horizontal and floating point
+ * predictors, and 8/16/32-bit integer or 32/64-bit float samples. Only the
+ * first band is read: of the full-resolution image, or with readGeoTIFFWindow
+ * of whichever overview suits the view.
+ */
+
+// TIFF tag ids
+const TAG_NEW_SUBFILE_TYPE = 254;
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PLANAR_CONFIGURATION = 284;
+const TAG_PREDICTOR = 317;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+const TAG_SAMPLE_FORMAT = 339;
+const TAG_MODEL_PIXEL_SCALE = 33550;
+const TAG_MODEL_TIEPOINT = 33922;
+const TAG_MODEL_TRANSFORMATION = 34264;
+const TAG_GEO_KEY_DIRECTORY = 34735;
+const TAG_GDAL_NODATA = 42113;
+
+// GeoKey ids
+const KEY_RASTER_TYPE = 1025;
+const KEY_GEOGRAPHIC_TYPE = 2048;
+const KEY_PROJECTED_CS_TYPE = 3072;
+const RASTER_PIXEL_IS_POINT = 2;
+
+// Compression schemes
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_PACKBITS = 32773;
+const COMPRESSION_DEFLATE_LEGACY = 32946;
+
+// NewSubfileType bit set on transparency masks
+const SUBFILE_MASK = 4;
+
+// Byte size of each TIFF field type, indexed by type id
+const FIELD_TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+/**
+ * An axis-aligned box in some CRS (degrees for EPSG:4326, metres for
+ * projected systems).
+ */
+export interface GeoBounds {
+  /** X coordinate of the outer left edge of the raster */
+  west: number;
+  /** X coordinate of the outer right edge of the raster */
+  east: number;
+  /** Y coordinate of the outer bottom edge of the raster */
+  south: number;
+  /** Y coordinate of the outer top edge of the raster */
+  north: number;
+}
+
+/**
+ * Georeferencing read from the GeoTIFF tags: the raster's outer bounds in its
+ * own CRS.
+ */
+export interface GeoReference extends GeoBounds {
+  /** CRS of the raster, e.g. 4326 or 28356 */
+  epsg?: number;
+}
+
+export interface GeoTIFFRaster {
+  width: number;
+  height: number;
+  /** First band as stored in the file, row-major from the top-left pixel */
+  data: Float32Array;
+  /** Value marking missing cells, from the GDAL_NODATA tag */
+  noData: number | null;
+  georeference: GeoReference | null;
+}
+
+type TagValue = number[] | string;
+
+/** Returns true if the buffer starts with a classic TIFF header. */
+export function isGeoTIFF(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 8) return false;
+  const bytes = new Uint8Array(buffer, 0, 4);
+  return (
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42)
+  );
+}
+
+function readTags(
+  view: DataView,
+  ifdOffset: number,
+  littleEndian: boolean,
+): Map<number, TagValue> {
+  const tags = new Map<number, TagValue>();
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const count = view.getUint32(entry + 4, littleEndian);
+    const typeSize = FIELD_TYPE_SIZES[type];
+    if (!typeSize) continue;
+
+    const valueOffset =
+      typeSize * count <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+
+    if (type === 2) {
+      let text = "";
+      for (let j = 0; j < count; j++) {
+        const code = view.getUint8(valueOffset + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text);
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let j = 0; j < count; j++) {
+      const at = valueOffset + j * typeSize;
+      switch (type) {
+        case 1:
+        case 7:
+          values.push(view.getUint8(at));
+          break;
+        case 6:
+          values.push(view.getInt8(at));
+          break;
+        case 3:
+          values.push(view.getUint16(at, littleEndian));
+          break;
+        case 8:
+          values.push(view.getInt16(at, littleEndian));
+          break;
+        case 4:
+          values.push(view.getUint32(at, littleEndian));
+          break;
+        case 9:
+          values.push(view.getInt32(at, littleEndian));
+          break;
+        case 5:
+          values.push(
+            view.getUint32(at, littleEndian) / view.getUint32(at + 4, littleEndian),
+          );
+          break;
+        case 10:
+          values.push(
+            view.getInt32(at, littleEndian) / view.getInt32(at + 4, littleEndian),
+          );
+          break;
+        case 11:
+          values.push(view.getFloat32(at, littleEndian));
+          break;
+        case 12:
+          values.push(view.getFloat64(at, littleEndian));
+          break;
+      }
+    }
+    tags.set(tag, values);
+  }
+
+  return tags;
+}
+
+function numberTag(tags: Map<number, TagValue>, tag: number, fallback?: number): number {
+  const value = tags.get(tag);
+  if (Array.isArray(value) && value.length > 0) return value[0];
+  if (fallback === undefined) {
+    throw new Error(`GeoTIFF: missing required tag ${tag}`);
+  }
+  return fallback;
+}
+
+function arrayTag(tags: Map<number, TagValue>, tag: number): number[] | null {
+  const value = tags.get(tag);
+  return Array.isArray(value) ? value : null;
+}
+
+/**
+ * Decodes TIFF-flavoured LZW (MSB-first codes, early code width change).
+ */
+export function decodeLZW(input: Uint8Array, expectedSize: number): Uint8Array {
+  const CLEAR_CODE = 256;
+  const EOI_CODE = 257;
+  const MAX_CODES = 4096;
+
+  const prefix = new Int32Array(MAX_CODES);
+  const suffix = new Uint8Array(MAX_CODES);
+  const first = new Uint8Array(MAX_CODES);
+  const length = new Int32Array(MAX_CODES);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    first[i] = i;
+    length[i] = 1;
+  }
+
+  const out = new Uint8Array(expectedSize);
+  let outPos = 0;
+  let bitPos = 0;
+  const totalBits = input.length * 8;
+  let codeWidth = 9;
+  let nextCode = 258;
+  let prev = -1;
+
+  const write = (code: number) => {
+    const len = length[code];
+    let pos = outPos + len - 1;
+    let c = code;
+    while (c >= 0) {
+      if (pos < out.length) out[pos] = suffix[c];
+      pos--;
+      c = prefix[c];
+    }
+    outPos += len;
+  };
+
+  const addEntry = (prefixCode: number, byte: number) => {
+    if (nextCode >= MAX_CODES) return;
+    prefix[nextCode] = prefixCode;
+    suffix[nextCode] = byte;
+    first[nextCode] = first[prefixCode];
+    length[nextCode] = length[prefixCode] + 1;
+    nextCode++;
+  };
+
+  while (bitPos + codeWidth <= totalBits && outPos < out.length) {
+    const byteIndex = bitPos >>> 3;
+    const chunk =
+      (input[byteIndex] << 16) |
+      ((input[byteIndex + 1] ?? 0) << 8) |
+      (input[byteIndex + 2] ?? 0);
+    const code = (chunk >>> (24 - (bitPos & 7) - codeWidth)) & ((1 << codeWidth) - 1);
+    bitPos += codeWidth;
+
+    if (code === EOI_CODE) break;
+    if (code === CLEAR_CODE) {
+      codeWidth = 9;
+      nextCode = 258;
+      prev = -1;
+      continue;
+    }
+
+    if (prev === -1) {
+      write(code);
+    } else if (code < nextCode) {
+      write(code);
+      addEntry(prev, first[code]);
+    } else {
+      // KwKwK case: the code being defined is the one just read
+      addEntry(prev, first[prev]);
+      write(code);
+    }
+    prev = code;
+
+    if (nextCode + 1 >= 1 << codeWidth && codeWidth < 12) {
+      codeWidth++;
+    }
+  }
+
+  return out;
+}
+
+function decodePackBits(input: Uint8Array, expectedSize: number): Uint8Array {
+  const out = new Uint8Array(expectedSize);
+  let inPos = 0;
+  let outPos = 0;
+  while (inPos < input.length && outPos < out.length) {
+    const header = (input[inPos++] << 24) >> 24;
+    if (header >= 0) {
+      for (let i = 0; i <= header && outPos < out.length; i++) {
+        out[outPos++] = input[inPos++];
+      }
+    } else if (header !== -128) {
+      const value = input[inPos++];
+      for (let i = 0; i < 1 - header && outPos < out.length; i++) {
+        out[outPos++] = value;
+      }
+    }
+  }
+  return out;
+}
+
+/** Inflates zlib, raw deflate or gzip data using the browser's native DecompressionStream. */
+export async function inflate(
+  input: Uint8Array,
+  format: "deflate" | "deflate-raw" | "gzip" = "deflate",
+): Promise<Uint8Array> {
+  const stream = new Blob([input as BlobPart]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompressChunk(
+  compression: number,
+  input: Uint8Array,
+  expectedSize: number,
+): Promise<Uint8Array> {
+  switch (compression) {
+    case COMPRESSION_NONE:
+      return input;
+    case COMPRESSION_LZW:
+      return decodeLZW(input, expectedSize);
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_DEFLATE_LEGACY:
+      return inflate(input);
+    case COMPRESSION_PACKBITS:
+      return decodePackBits(input, expectedSize);
+    default:
+      throw new Error(`GeoTIFF: unsupported compression scheme ${compression}`);
+  }
+}
+
+interface SampleLayout {
+  bitsPerSample: number;
+  sampleFormat: number; // 1 = unsigned int, 2 = signed int, 3 = float
+  samplesPerPixel: number;
+  littleEndian: boolean;
+}
+
+function readSample(view: DataView, at: number, layout: SampleLayout): number {
+  const { bitsPerSample, sampleFormat, littleEndian } = layout;
+  if (sampleFormat === 3) {
+    if (bitsPerSample === 32) return view.getFloat32(at, littleEndian);
+    if (bitsPerSample === 64) return view.getFloat64(at, littleEndian);
+  } else if (sampleFormat === 2) {
+    if (bitsPerSample === 8) return view.getInt8(at);
+    if (bitsPerSample === 16) return view.getInt16(at, littleEndian);
+    if (bitsPerSample === 32) return view.getInt32(at, littleEndian);
+  } else {
+    if (bitsPerSample === 8) return view.getUint8(at);
+    if (bitsPerSample === 16) return view.getUint16(at, littleEndian);
+    if (bitsPerSample === 32) return view.getUint32(at, littleEndian);
+  }
+  throw new Error(
+    `GeoTIFF: unsupported sample type (${bitsPerSample}-bit, format ${sampleFormat})`,
+  );
+}
+
+/**
+ * Undoes the horizontal differencing predictor (Predictor = 2) in place.
+ * Differences are taken per sample, wrapping at the sample bit depth.
+ */
+function undoHorizontalPredictor(
+  bytes: Uint8Array,
+  chunkWidth: number,
+  rows: number,
+  layout: SampleLayout,
+) {
+  const { bitsPerSample, samplesPerPixel, littleEndian } = layout;
+  const bytesPerSample = bitsPerSample / 8;
+  const rowSamples = chunkWidth * samplesPerPixel;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  for (let r = 0; r < rows; r++) {
+    const rowStart = r * rowSamples * bytesPerSample;
+    for (let i = samplesPerPixel; i < rowSamples; i++) {
+      const at = rowStart + i * bytesPerSample;
+      const before = at - samplesPerPixel * bytesPerSample;
+      if (bitsPerSample === 8) {
+        bytes[at] = (bytes[at] + bytes[before]) & 0xff;
+      } else if (bitsPerSample === 16) {
+        view.setUint16(
+          at,
+          (view.getUint16(at, littleEndian) + view.getUint16(before, littleEndian)) & 0xffff,
+          littleEndian,
+        );
+      } else if (bitsPerSample === 32) {
+        view.setUint32(
+          at,
+          (view.getUint32(at, littleEndian) + view.getUint32(before, littleEndian)) >>> 0,
+          littleEndian,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Undoes the floating point predictor (Predictor = 3). Each row is byte-wise
+ * differenced, with the bytes of every sample split into significance planes
+ * (most significant first). Returns the rows rebuilt in the file byte order.
+ */
+function undoFloatingPointPredictor(
+  bytes: Uint8Array,
+  chunkWidth: number,
+  rows: number,
+  layout: SampleLayout,
+): Uint8Array {
+  const bytesPerSample = layout.bitsPerSample / 8;
+  const rowSamples = chunkWidth * layout.samplesPerPixel;
+  const rowBytes = rowSamples * bytesPerSample;
+  const out = new Uint8Array(bytes.length);
+
+  for (let r = 0; r < rows; r++) {
+    const rowStart = r * rowBytes;
+    for (let i = layout.samplesPerPixel; i < rowBytes; i++) {
+      bytes[rowStart + i] = (bytes[rowStart + i] + bytes[rowStart + i - layout.samplesPerPixel]) & 0xff;
+    }
+    for (let s = 0; s < rowSamples; s++) {
+      for (let b = 0; b < bytesPerSample; b++) {
+        // Planes are big-endian; place the byte where the file byte order expects it
+        const target = layout.littleEndian ? bytesPerSample - 1 - b : b;
+        out[rowStart + s * bytesPerSample + target] = bytes[rowStart + b * rowSamples + s];
+      }
+    }
+  }
+
+  return out;
+}
+
+function readGeoReference(
+  tags: Map<number, TagValue>,
+  width: number,
+  height: number,
+): GeoReference | null {
+  const scale = arrayTag(tags, TAG_MODEL_PIXEL_SCALE);
+  const tiepoint = arrayTag(tags, TAG_MODEL_TIEPOINT);
+  const transformation = arrayTag(tags, TAG_MODEL_TRANSFORMATION);
+
+  let originX: number;
+  let originY: number;
+  let pixelSizeX: number;
+  let pixelSizeY: number;
+
+  if (scale && tiepoint && tiepoint.length >= 6) {
+    pixelSizeX = scale[0];
+    pixelSizeY = scale[1];
+    originX = tiepoint[3] - tiepoint[0] * pixelSizeX;
+    originY = tiepoint[4] + tiepoint[1] * pixelSizeY;
+  } else if (transformation && transformation.length >= 16) {
+    // Rotation terms are ignored; north-up rasters only
+    pixelSizeX = transformation[0];
+    pixelSizeY = -transformation[5];
+    originX = transformation[3];
+    originY = transformation[7];
+  } else {
+    return null;
+  }
+
+  let epsg: number | undefined;
+  let pixelIsPoint = false;
+  const keys = arrayTag(tags, TAG_GEO_KEY_DIRECTORY);
+  if (keys && keys.length >= 4) {
+    const keyCount = keys[3];
+    for (let i = 0; i < keyCount; i++) {
+      const [keyId, location, , value] = keys.slice(4 + i * 4, 8 + i * 4);
+      // Only keys stored inline in the directory (location 0) are needed here
+      if (location !== 0) continue;
+      if (keyId === KEY_PROJECTED_CS_TYPE && value !== 32767) epsg = value;
+      if (keyId === KEY_GEOGRAPHIC_TYPE && value !== 32767 && epsg === undefined) epsg = value;
+      if (keyId === KEY_RASTER_TYPE) pixelIsPoint = value === RASTER_PIXEL_IS_POINT;
+    }
+  }
+
+  // PixelIsPoint tiepoints refer to pixel centres; shift to the outer edge
+  if (pixelIsPoint) {
+    originX -= pixelSizeX / 2;
+    originY += pixelSizeY / 2;
+  }
+
+  return {
+    epsg,
+    west: originX,
+    north: originY,
+    east: originX + width * pixelSizeX,
+    south: originY - height * pixelSizeY,
+  };
+}
+
+interface TIFFImage {
+  width: number;
+  height: number;
+  compression: number;
+  predictor: number;
+  layout: SampleLayout;
+  tiled: boolean;
+  chunkWidth: number;
+  chunkHeight: number;
+  chunksAcross: number;
+  chunksDown: number;
+  offsets: number[];
+  byteCounts: number[];
+}
+
+/** Reads the size, sample layout and chunk locations of an image from its tags. */
+function readImage(tags: Map<number, TagValue>, littleEndian: boolean): TIFFImage {
+  const width = numberTag(tags, TAG_IMAGE_WIDTH);
+  const height = numberTag(tags, TAG_IMAGE_LENGTH);
+  const planar = numberTag(tags, TAG_PLANAR_CONFIGURATION, 1);
+  const layout: SampleLayout = {
+    bitsPerSample: numberTag(tags, TAG_BITS_PER_SAMPLE, 1),
+    sampleFormat: numberTag(tags, TAG_SAMPLE_FORMAT, 1),
+    // With separate planes the first offsets all belong to band 1
+    samplesPerPixel: planar === 2 ? 1 : numberTag(tags, TAG_SAMPLES_PER_PIXEL, 1),
+    littleEndian,
+  };
+  if (layout.bitsPerSample % 8 !== 0) {
+    throw new Error(`GeoTIFF: unsupported bit depth ${layout.bitsPerSample}`);
+  }
+
+  const tiled = tags.has(TAG_TILE_OFFSETS);
+  const chunkWidth = tiled ? numberTag(tags, TAG_TILE_WIDTH) : width;
+  const chunkHeight = tiled
+    ? numberTag(tags, TAG_TILE_LENGTH)
+    : Math.min(numberTag(tags, TAG_ROWS_PER_STRIP, height), height);
+  const offsets = arrayTag(tags, tiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS);
+  const byteCounts = arrayTag(tags, tiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS);
+  if (!offsets || !byteCounts) {
+    throw new Error("GeoTIFF: missing strip or tile offsets");
+  }
+
+  return {
+    width,
+    height,
+    compression: numberTag(tags, TAG_COMPRESSION, COMPRESSION_NONE),
+    predictor: numberTag(tags, TAG_PREDICTOR, 1),
+    layout,
+    tiled,
+    chunkWidth,
+    chunkHeight,
+    chunksAcross: Math.ceil(width / chunkWidth),
+    chunksDown: Math.ceil(height / chunkHeight),
+    offsets,
+    byteCounts,
+  };
+}
+
+/** A rectangle of pixels: columns x to x + width - 1, rows y to y + height - 1 */
+interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decodes one strip or tile and copies its samples that fall inside a
+ * rectangle of the image into that rectangle's data.
+ * @param image - The image the chunk belongs to
+ * @param chunk - Index of the chunk
+ * @param compressed - The chunk's bytes as stored in the file
+ * @param data - Samples of the rectangle, row-major
+ * @param rect - Where data lies in the image
+ */
+async function readChunkInto(
+  image: TIFFImage,
+  chunk: number,
+  compressed: Uint8Array,
+  data: Float32Array,
+  rect: PixelRect,
+) {
+  const { chunkWidth, chunkHeight, layout } = image;
+  const chunkX = (chunk % image.chunksAcross) * chunkWidth;
+  const chunkY = Math.floor(chunk / image.chunksAcross) * chunkHeight;
+  // Strips at the bottom edge may be shorter; tiles are always padded
+  const rows = image.tiled ? chunkHeight : Math.min(chunkHeight, image.height - chunkY);
+  const bytesPerSample = layout.bitsPerSample / 8;
+  const bytesPerPixel = bytesPerSample * layout.samplesPerPixel;
+  const expectedSize = chunkWidth * rows * bytesPerPixel;
+
+  let bytes = await decompressChunk(image.compression, compressed, expectedSize);
+  if (bytes === compressed) bytes = compressed.slice();
+
+  if (image.predictor === 2) {
+    undoHorizontalPredictor(bytes, chunkWidth, rows, layout);
+  } else if (image.predictor === 3) {
+    bytes = undoFloatingPointPredictor(bytes, chunkWidth, rows, layout);
+  }
+
+  const chunkView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fromX = Math.max(chunkX, rect.x);
+  const toX = Math.min(chunkX + chunkWidth, image.width, rect.x + rect.width);
+  const fromY = Math.max(chunkY, rect.y);
+  const toY = Math.min(chunkY + rows, image.height, rect.y + rect.height);
+  for (let y = fromY; y < toY; y++) {
+    for (let x = fromX; x < toX; x++) {
+      const at = ((y - chunkY) * chunkWidth + x - chunkX) * bytesPerPixel;
+      if (at + bytesPerSample > bytes.length) continue;
+      data[(y - rect.y) * rect.width + x - rect.x] = readSample(chunkView, at, layout);
+    }
+  }
+}
+
+function readNoData(tags: Map<number, TagValue>): number | null {
+  const noDataTag = tags.get(TAG_GDAL_NODATA);
+  const noData =
+    typeof noDataTag === "string" && noDataTag.trim() !== ""
+      ? parseFloat(noDataTag)
+      : null;
+  return noData !== null && !isNaN(noData) ? noData : null;
+}
+
+/**
+ * Decodes the first band of a GeoTIFF into a Float32Array of raw values.
+ * @param buffer - The complete file contents
+ * @returns The raster values, nodata marker and georeferencing
+ */
+export async function decodeGeoTIFF(buffer: ArrayBuffer): Promise<GeoTIFFRaster> {
+  if (!isGeoTIFF(buffer)) {
+    throw new Error("GeoTIFF: not a classic TIFF file (BigTIFF is not supported)");
+  }
+
+  const view = new DataView(buffer);
+  const littleEndian = view.getUint8(0) === 0x49;
+  const tags = readTags(view, view.getUint32(4, littleEndian), littleEndian);
+  const image = readImage(tags, littleEndian);
+  const { width, height } = image;
+
+  const data = new Float32Array(width * height);
+  const rect = { x: 0, y: 0, width, height };
+  for (let chunk = 0; chunk < image.chunksAcross * image.chunksDown; chunk++) {
+    const compressed = new Uint8Array(buffer, image.offsets[chunk], image.byteCounts[chunk]);
+    await readChunkInto(image, chunk, compressed, data, rect);
+  }
+
+  return {
+    width,
+    height,
+    data,
+    noData: readNoData(tags),
+    georeference: readGeoReference(tags, width, height),
+  };
+}
+
+/**
+ * Reads a byte range of a file, e.g. with an HTTP Range request. May return
+ * fewer bytes at the end of the file.
+ */
+export type ByteRangeReader = (offset: number, length: number) => Promise<Uint8Array>;
+
+/**
+ * A rectangle in the UV space of a full-resolution image, where 0 and 1 are
+ * the centres of the first and last pixels.
+ */
+export interface UVBounds {
+  uMin: number;
+  vMin: number;
+  uMax: number;
+  vMax: number;
+}
+
+export interface GeoTIFFWindowRaster extends GeoTIFFRaster {
+  /** The part of the full-resolution image the raster covers */
+  bounds: UVBounds;
+}
+
+// Largest header read in search of the image directories; Cloud-Optimized
+// GeoTIFFs keep all of them at the start of the file
+const MAX_HEADER_BYTES = 16 * 1024 * 1024;
+// Chunks closer together than this in the file are fetched in one request
+const MERGE_GAP_BYTES = 64 * 1024;
+
+/**
+ * Reads the directories of all images in a TIFF: the full-resolution image
+ * followed by its overviews. Masks are left out.
+ */
+function readImageDirectories(bytes: Uint8Array): { tags: Map<number, TagValue>; image: TIFFImage }[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = view.getUint8(0) === 0x49;
+  const images: { tags: Map<number, TagValue>; image: TIFFImage }[] = [];
+  let offset = view.getUint32(4, littleEndian);
+  while (offset !== 0) {
+    const tags = readTags(view, offset, littleEndian);
+    if ((numberTag(tags, TAG_NEW_SUBFILE_TYPE, 0) & SUBFILE_MASK) === 0) {
+      images.push({ tags, image: readImage(tags, littleEndian) });
+    }
+    offset = view.getUint32(offset + 2 + view.getUint16(offset, littleEndian) * 12, littleEndian);
+  }
+  return images;
+}
+
+/**
+ * Reads part of the first band of a GeoTIFF without downloading all of it.
+ *
+ * Picks the coarsest level (the full-resolution image or one of its
+ * overviews) that still has the requested number of pixels across the
+ * window, and only fetches the strips or tiles of that level that cover the
+ * window. This is what Cloud-Optimized GeoTIFFs are laid out for, but any
+ * classic TIFF works.
+ * @param header - The first bytes of the file; more is read if the image
+ *   directories don't fit
+ * @param read - Reads other parts of the file
+ * @param window - The part of the image to read
+ * @param samplesX - Pixels wanted across the window
+ * @param samplesY - Pixels wanted down the window
+ * @param margin - Extra fraction of the window to read on each side
+ */
+export async function readGeoTIFFWindow(
+  header: Uint8Array,
+  read: ByteRangeReader,
+  window: UVBounds,
+  samplesX: number,
+  samplesY: number,
+  margin: number = 0,
+): Promise<GeoTIFFWindowRaster> {
+  if (!isGeoTIFF(header.slice(0, 8).buffer)) {
+    throw new Error("GeoTIFF: not a classic TIFF file (BigTIFF is not supported)");
+  }
+
+  // Grow the header until every directory and its tag values fit
+  let images: ReturnType<typeof readImageDirectories>;
+  for (;;) {
+    try {
+      images = readImageDirectories(header);
+      break;
+    } catch (error) {
+      if (!(error instanceof RangeError) || header.length >= MAX_HEADER_BYTES) throw error;
+      const larger = await read(0, Math.min(header.length * 4, MAX_HEADER_BYTES));
+      if (larger.length <= header.length) throw error;
+      header = larger;
+    }
+  }
+  if (images.length === 0) {
+    throw new Error("GeoTIFF: no images found");
+  }
+
+  const full = images[0];
+  const uSpan = window.uMax - window.uMin;
+  const vSpan = window.vMax - window.vMin;
+  // Levels from coarsest to finest; fall back to the full resolution
+  const levels = [...images].sort((a, b) => a.image.width - b.image.width);
+  const { tags, image } =
+    levels.find(
+      ({ image }) => uSpan * (image.width - 1) >= samplesX - 1 && vSpan * (image.height - 1) >= samplesY - 1,
+    ) ?? full;
+
+  // Pixels of the level that cover the window (and margin)
+  const toPixel = (uv: number, size: number) => uv * (size - 1);
+  const x0 = Math.max(0, Math.floor(toPixel(window.uMin - uSpan * margin, image.width)));
+  const x1 = Math.min(image.width - 1, Math.ceil(toPixel(window.uMax + uSpan * margin, image.width)));
+  const y0 = Math.max(0, Math.floor(toPixel(window.vMin - vSpan * margin, image.height)));
+  const y1 = Math.min(image.height - 1, Math.ceil(toPixel(window.vMax + vSpan * margin, image.height)));
+  if (x1 < x0 || y1 < y0) {
+    throw new Error("GeoTIFF: the view lies outside the image");
+  }
+  const rect = { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+
+  // Chunks overlapping the rectangle, in file order
+  const chunks: number[] = [];
+  for (let cy = Math.floor(y0 / image.chunkHeight); cy <= Math.floor(y1 / image.chunkHeight); cy++) {
+    for (let cx = Math.floor(x0 / image.chunkWidth); cx <= Math.floor(x1 / image.chunkWidth); cx++) {
+      chunks.push(cy * image.chunksAcross + cx);
+    }
+  }
+  chunks.sort((a, b) => image.offsets[a] - image.offsets[b]);
+
+  // Empty chunks (sparse files) hold no data
+  const data = new Float32Array(rect.width * rect.height).fill(NaN);
+
+  // Fetch runs of nearby chunks together
+  const runs: number[][] = [];
+  for (const chunk of chunks) {
+    if (image.byteCounts[chunk] === 0) continue;
+    const run = runs[runs.length - 1];
+    const last = run?.[run.length - 1];
+    if (run && image.offsets[chunk] - (image.offsets[last] + image.byteCounts[last]) <= MERGE_GAP_BYTES) {
+      run.push(chunk);
+    } else {
+      runs.push([chunk]);
+    }
+  }
+  await Promise.all(
+    runs.map(async (run) => {
+      const start = image.offsets[run[0]];
+      const last = run[run.length - 1];
+      const bytes = await read(start, image.offsets[last] + image.byteCounts[last] - start);
+      for (const chunk of run) {
+        const at = image.offsets[chunk] - start;
+        await readChunkInto(image, chunk, bytes.subarray(at, at + image.byteCounts[chunk]), data, rect);
+      }
+    }),
+  );
+
+  return {
+    width: rect.width,
+    height: rect.height,
+    data,
+    noData: readNoData(tags) ?? readNoData(full.tags),
+    // Overviews carry no georeferencing of their own; describe the whole file
+    georeference: readGeoReference(full.tags, full.image.width, full.image.height),
+    bounds: {
+      uMin: x0 / (image.width - 1),
+      uMax: x1 / (image.width - 1),
+      vMin: y0 / (image.height - 1),
+      vMax: y1 / (image.height - 1),
+    },
+  };
+}
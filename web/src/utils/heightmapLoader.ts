@@ -0,0 +1,521 @@
+import { decodeGeoTIFF, GeoBounds, GeoReference, isGeoTIFF, readGeoTIFFWindow, UVBounds } from "./geotiff";
+import { decodeHgt, isHgtFileName } from "./hgt";
+import { decodePNG, isDecodablePNG } from "./png";
+
+/**
+ * How heights are stored in the pixels of an image heightmap.
+ * - grayscale: the first channel is the height (8 or 16-bit)
+ * - rgb-packed: a 24-bit height split across R (high), G and B (low) bytes
+ * - terrain-rgb: Mapbox Terrain-RGB, -10000 + (R * 65536 + G * 256 + B) * 0.1 metres
+ * - terrarium: Terrarium, (R * 256 + G + B / 256) - 32768 metres
+ *
+ * GeoTIFFs carry real elevations and ignore the encoding.
+ */
+export const HEIGHTMAP_ENCODINGS = ["grayscale", "rgb-packed", "terrain-rgb", "terrarium"] as const;
+export type HeightmapEncoding = (typeof HEIGHTMAP_ENCODINGS)[number];
+
+/**
+ * A rectangular range of XYZ tiles at one zoom level (inclusive bounds).
+ */
+export interface TileGridRange {
+  z: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/** Window into a heightmap in UV space, as used by the heightmap pipeline */
+export interface HeightmapWindow {
+  uCenter: number;
+  vCenter: number;
+  uSpan: number;
+  vSpan: number;
+}
+
+/** A window together with the number of samples that will be taken over it */
+export interface HeightmapRegion extends HeightmapWindow {
+  samplesX: number;
+  samplesY: number;
+}
+
+export interface HeightmapLoadOptions {
+  /** Pixel encoding of image heightmaps (default: grayscale) */
+  encoding?: HeightmapEncoding;
+  /**
+   * Treat the heightmap URL as a tile template containing {z}, {x} and {y},
+   * and stitch this range of tiles into one raster
+   */
+  tiles?: TileGridRange;
+  /** Lat/lon window to crop SRTM .hgt tiles to */
+  crop?: GeoBounds;
+  /**
+   * File name of the heightmap, used to recognise .hgt tiles when the URL
+   * does not carry one (e.g. object URLs)
+   */
+  fileName?: string;
+  /**
+   * Real elevation range in metres of image heightmaps whose pixels only hold
+   * normalised heights. Ignored for sources that carry real elevations.
+   */
+  elevationRangeM?: { min: number; max: number };
+  /**
+   * The part of the heightmap that will be sampled. GeoTIFFs served over HTTP
+   * are then read with Range requests, downloading only the coarsest level
+   * (full resolution or overview) with enough samples and only its tiles that
+   * cover the region. Other sources, and servers without Range support, are
+   * loaded whole.
+   */
+  region?: HeightmapRegion;
+}
+
+/**
+ * A decoded heightmap, independent of the file format it came from.
+ */
+export interface HeightmapRaster {
+  width: number;
+  height: number;
+  /** Heights normalised to [0, 1], row-major from the top-left pixel; NaN marks voids */
+  heights: Float32Array;
+  /** Real elevation range in metres, when the source carries real heights */
+  elevationRangeM?: { min: number; max: number };
+  /** Georeferencing, when the source carries it */
+  georeference?: GeoReference;
+  /**
+   * The part of the source the raster covers, when only part of it was read.
+   * UVs elsewhere (windows, georeferencing) always refer to the whole source.
+   */
+  bounds?: UVBounds;
+}
+
+/**
+ * Raw image samples, interleaved by channel.
+ */
+export interface PixelData {
+  width: number;
+  height: number;
+  channels: number;
+  /** Largest value a sample can hold (255 for 8-bit, 65535 for 16-bit) */
+  maxValue: number;
+  data: ArrayLike<number>;
+}
+
+/**
+ * Builds a raster from image samples using the given height encoding.
+ * Fully transparent pixels (alpha 0) are voids, which is how
+ * dem_to_heightmap.py marks nodata.
+ * @param pixels - The decoded image samples
+ * @param encoding - How heights are stored in the pixels
+ */
+export function rasterFromPixels(
+  pixels: PixelData,
+  encoding: HeightmapEncoding = "grayscale",
+): HeightmapRaster {
+  const { width, height, channels, maxValue, data } = pixels;
+  const heights = new Float32Array(width * height);
+
+  switch (encoding) {
+    case "grayscale":
+      for (let i = 0; i < heights.length; i++) {
+        heights[i] = data[i * channels] / maxValue;
+      }
+      break;
+    case "rgb-packed": {
+      assertRGB8(pixels, encoding);
+      const packedMax = 0xffffff;
+      for (let i = 0; i < heights.length; i++) {
+        const p = i * channels;
+        heights[i] = (data[p] * 65536 + data[p + 1] * 256 + data[p + 2]) / packedMax;
+      }
+      break;
+    }
+    case "terrain-rgb":
+    case "terrarium": {
+      assertRGB8(pixels, encoding);
+      const elevations = new Float32Array(width * height);
+      for (let i = 0; i < elevations.length; i++) {
+        const p = i * channels;
+        elevations[i] =
+          encoding === "terrain-rgb"
+            ? -10000 + (data[p] * 65536 + data[p + 1] * 256 + data[p + 2]) * 0.1
+            : data[p] * 256 + data[p + 1] + data[p + 2] / 256 - 32768;
+      }
+      maskTransparentPixels(pixels, elevations);
+      return rasterFromElevations(width, height, elevations);
+    }
+  }
+
+  maskTransparentPixels(pixels, heights);
+  return { width, height, heights };
+}
+
+/** Sets values of fully transparent pixels to NaN, for images with alpha. */
+function maskTransparentPixels(pixels: PixelData, values: Float32Array) {
+  const { channels, data } = pixels;
+  if (channels !== 2 && channels !== 4) return;
+  for (let i = 0; i < values.length; i++) {
+    if (data[i * channels + channels - 1] === 0) values[i] = NaN;
+  }
+}
+
+function assertRGB8(pixels: PixelData, encoding: HeightmapEncoding) {
+  if (pixels.channels < 3 || pixels.maxValue !== 255) {
+    throw new Error(`${encoding} heightmaps must be 8-bit RGB or RGBA images`);
+  }
+}
+
+/**
+ * Builds a raster from real elevation values in metres.
+ * Heights are normalised against the valid elevation range. Nodata and
+ * non-finite cells become NaN voids, which the terrain filters can fill.
+ * @param width - Raster width in pixels
+ * @param height - Raster height in pixels
+ * @param elevations - Elevations in metres, row-major from the top-left pixel
+ * @param noData - Value marking missing cells, if any
+ * @param georeference - Georeferencing of the raster, if known
+ */
+export function rasterFromElevations(
+  width: number,
+  height: number,
+  elevations: ArrayLike<number>,
+  noData: number | null = null,
+  georeference?: GeoReference,
+): HeightmapRaster {
+  const isValid = (value: number) => Number.isFinite(value) && value !== noData;
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < width * height; i++) {
+    const value = elevations[i];
+    if (!isValid(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (min === Infinity) {
+    throw new Error("Heightmap contains no valid elevation values");
+  }
+
+  const range = Math.max(max - min, 1e-6);
+  const heights = new Float32Array(width * height);
+  for (let i = 0; i < heights.length; i++) {
+    const value = elevations[i];
+    heights[i] = isValid(value) ? (value - min) / range : NaN;
+  }
+
+  return {
+    width,
+    height,
+    heights,
+    elevationRangeM: { min, max },
+    georeference,
+  };
+}
+
+/**
+ * Decodes image bytes through an OffscreenCanvas, so that it also works inside
+ * the heightmap worker. Colour management is turned off so that the samples
+ * come out as stored.
+ */
+async function decodeImageBytes(buffer: ArrayBuffer): Promise<ImageData> {
+  const bitmap = await createImageBitmap(new Blob([buffer]), {
+    colorSpaceConversion: "none",
+    premultiplyAlpha: "none",
+  });
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      throw new Error("Could not get canvas context");
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Decodes image bytes into raw samples. PNGs keep their native bit depth;
+ * other formats, and PNGs the native decoder doesn't support (palette,
+ * sub-byte or interlaced, e.g. pngquant output), go through a canvas and are
+ * limited to 8-bit RGBA.
+ */
+async function decodePixelBytes(buffer: ArrayBuffer): Promise<PixelData> {
+  if (isDecodablePNG(buffer)) {
+    const png = await decodePNG(buffer);
+    return { ...png, maxValue: png.bitDepth === 16 ? 65535 : 255 };
+  }
+
+  const imageData = await decodeImageBytes(buffer);
+  return {
+    width: imageData.width,
+    height: imageData.height,
+    channels: 4,
+    maxValue: 255,
+    data: imageData.data,
+  };
+}
+
+async function fetchBytes(url: string): Promise<ArrayBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load heightmap: ${url} (${response.status})`);
+  }
+  return response.arrayBuffer();
+}
+
+/**
+ * Fetches part of a file with a Range request.
+ * @returns The bytes, and whether the server sent only the range (206) rather
+ *   than the whole file
+ */
+async function fetchByteRange(
+  url: string,
+  offset: number,
+  length: number,
+): Promise<{ bytes: Uint8Array; partial: boolean }> {
+  const response = await fetch(url, { headers: { Range: `bytes=${offset}-${offset + length - 1}` } });
+  if (!response.ok) {
+    throw new Error(`Failed to load heightmap: ${url} (${response.status})`);
+  }
+  return { bytes: new Uint8Array(await response.arrayBuffer()), partial: response.status === 206 };
+}
+
+// Bytes read to recognise a file before streaming it; holds the image
+// directories of most Cloud-Optimized GeoTIFFs
+const PROBE_BYTES = 64 * 1024;
+// Image formats decoded whole, recognised by file name
+const IMAGE_FILENAME_PATTERN = /\.(png|jpe?g|webp|gif|bmp|avif)$/i;
+
+function isImageFileName(name: string): boolean {
+  return IMAGE_FILENAME_PATTERN.test(name.split(/[?#]/)[0]);
+}
+
+/**
+ * Fetches the rest of a file whose first bytes came from a Range request, so
+ * that they aren't downloaded twice.
+ * @param url - URL of the file
+ * @param head - The first bytes of the file
+ * @returns The whole file
+ */
+async function fetchRemainingBytes(url: string, head: Uint8Array): Promise<ArrayBuffer> {
+  // A short range means the file ended within it
+  if (head.length < PROBE_BYTES) return head.slice().buffer;
+  const response = await fetch(url, { headers: { Range: `bytes=${head.length}-` } });
+  // Nothing after the head: the file is exactly PROBE_BYTES long
+  if (response.status === 416) return head.slice().buffer;
+  if (!response.ok) {
+    throw new Error(`Failed to load heightmap: ${url} (${response.status})`);
+  }
+  const rest = new Uint8Array(await response.arrayBuffer());
+  // A server may still answer with the whole file
+  if (response.status !== 206) return rest.buffer;
+  const bytes = new Uint8Array(head.length + rest.length);
+  bytes.set(head);
+  bytes.set(rest, head.length);
+  return bytes.buffer;
+}
+
+// Extra part of the region read on each side, for the filters to work with
+const REGION_MARGIN = 0.1;
+
+/**
+ * Reads the region of a GeoTIFF over HTTP (see HeightmapLoadOptions.region).
+ * @param url - URL of the GeoTIFF
+ * @param header - The first bytes of the file, from a Range request
+ * @param region - The part to read
+ */
+async function loadGeoTIFFRegion(
+  url: string,
+  header: Uint8Array,
+  region: HeightmapRegion,
+): Promise<HeightmapRaster> {
+  // A server may still answer with the whole file, which is then kept and
+  // read from rather than downloaded again for every chunk run
+  let wholeFile: Uint8Array | null = null;
+  let firstRead: Promise<unknown> | null = null;
+  const read = async (offset: number, length: number) => {
+    // Reads wait for the first one, which tells whether ranges are honoured
+    if (firstRead) await firstRead.catch(() => {});
+    if (wholeFile) return wholeFile.subarray(offset, offset + length);
+    const request = fetchByteRange(url, offset, length);
+    firstRead ??= request;
+    const { bytes, partial } = await request;
+    if (partial) return bytes;
+    wholeFile = bytes;
+    return bytes.subarray(offset, offset + length);
+  };
+  const tiff = await readGeoTIFFWindow(
+    header,
+    read,
+    {
+      uMin: region.uCenter - region.uSpan / 2,
+      uMax: region.uCenter + region.uSpan / 2,
+      vMin: region.vCenter - region.vSpan / 2,
+      vMax: region.vCenter + region.vSpan / 2,
+    },
+    region.samplesX,
+    region.samplesY,
+    REGION_MARGIN,
+  );
+  return {
+    ...rasterFromElevations(tiff.width, tiff.height, tiff.data, tiff.noData, tiff.georeference ?? undefined),
+    bounds: tiff.bounds,
+  };
+}
+
+/** Expands {z}, {x} and {y} in a tile URL template. */
+export function tileUrl(template: string, z: number, x: number, y: number): string {
+  return template
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+}
+
+/**
+ * Web Mercator (EPSG:3857) bounds of a tile range, in metres.
+ */
+function tileRangeGeoReference(range: TileGridRange): GeoReference {
+  const worldSize = 2 * Math.PI * 6378137;
+  const tiles = 2 ** range.z;
+  const toX = (x: number) => (x / tiles - 0.5) * worldSize;
+  const toY = (y: number) => (0.5 - y / tiles) * worldSize;
+  return {
+    epsg: 3857,
+    west: toX(range.minX),
+    east: toX(range.maxX + 1),
+    north: toY(range.minY),
+    south: toY(range.maxY + 1),
+  };
+}
+
+/**
+ * Fetches a grid of XYZ tiles and stitches them into a single raster.
+ * All tiles must share the same size and sample layout.
+ * @param template - Tile URL containing {z}, {x} and {y} placeholders
+ * @param range - The tiles to stitch
+ * @param encoding - Pixel encoding of the tiles
+ */
+export async function loadHeightmapTileGrid(
+  template: string,
+  range: TileGridRange,
+  encoding: HeightmapEncoding = "grayscale",
+): Promise<HeightmapRaster> {
+  const across = range.maxX - range.minX + 1;
+  const down = range.maxY - range.minY + 1;
+  if (across < 1 || down < 1) {
+    throw new Error(`Invalid tile range: x ${range.minX}-${range.maxX}, y ${range.minY}-${range.maxY}`);
+  }
+
+  const requests: Promise<PixelData>[] = [];
+  for (let ty = 0; ty < down; ty++) {
+    for (let tx = 0; tx < across; tx++) {
+      const url = tileUrl(template, range.z, range.minX + tx, range.minY + ty);
+      requests.push(fetchBytes(url).then(decodePixelBytes));
+    }
+  }
+  const tiles = await Promise.all(requests);
+
+  const { width: tileWidth, height: tileHeight, channels, maxValue } = tiles[0];
+  const width = tileWidth * across;
+  const height = tileHeight * down;
+  const data = maxValue > 255
+    ? new Uint16Array(width * height * channels)
+    : new Uint8Array(width * height * channels);
+
+  tiles.forEach((tile, i) => {
+    if (
+      tile.width !== tileWidth ||
+      tile.height !== tileHeight ||
+      tile.channels !== channels ||
+      tile.maxValue !== maxValue
+    ) {
+      throw new Error("All tiles in a tile grid must have the same size and format");
+    }
+    const offsetX = (i % across) * tileWidth;
+    const offsetY = Math.floor(i / across) * tileHeight;
+    const rowLength = tileWidth * channels;
+    for (let y = 0; y < tileHeight; y++) {
+      const dst = ((offsetY + y) * width + offsetX) * channels;
+      for (let k = 0; k < rowLength; k++) {
+        data[dst + k] = tile.data[y * rowLength + k];
+      }
+    }
+  });
+
+  return {
+    ...rasterFromPixels({ width, height, channels, maxValue, data }, encoding),
+    georeference: tileRangeGeoReference(range),
+  };
+}
+
+/**
+ * Fetches a heightmap and decodes it into a HeightmapRaster.
+ * GeoTIFFs are detected from their header and read at full precision with
+ * their georeferencing. PNGs are decoded at their native bit depth; other
+ * image formats go through a canvas and are limited to 8 bits. SRTM .hgt
+ * tiles are recognised by their file name. With options.region, GeoTIFFs are
+ * streamed in parts where the server allows it.
+ * @param url - URL of the heightmap (image, GeoTIFF or .hgt), or a tile template
+ *   when options.tiles is set
+ * @param options - Decoding options
+ */
+export async function loadHeightmapRaster(
+  url: string,
+  options: HeightmapLoadOptions = {},
+): Promise<HeightmapRaster> {
+  const raster = await decodeHeightmap(url, options);
+  if (raster.elevationRangeM || !options.elevationRangeM) return raster;
+  return { ...raster, elevationRangeM: options.elevationRangeM };
+}
+
+async function decodeHeightmap(
+  url: string,
+  options: HeightmapLoadOptions,
+): Promise<HeightmapRaster> {
+  if (options.tiles) {
+    return loadHeightmapTileGrid(url, options.tiles, options.encoding);
+  }
+
+  const fileName = options.fileName ?? url;
+
+  let buffer: ArrayBuffer | null = null;
+  // Local files (dropped or imported) are in memory already, and files named
+  // as images or .hgt tiles can't be streamed
+  if (options.region && !/^(blob|data):/i.test(url) && !isHgtFileName(fileName) && !isImageFileName(fileName)) {
+    const probe = await fetchByteRange(url, 0, PROBE_BYTES);
+    if (!probe.partial) {
+      // No Range support: this is the whole file
+      buffer = probe.bytes.buffer as ArrayBuffer;
+    } else if (isGeoTIFF(probe.bytes.buffer as ArrayBuffer)) {
+      return loadGeoTIFFRegion(url, probe.bytes, options.region);
+    } else {
+      buffer = await fetchRemainingBytes(url, probe.bytes);
+    }
+  }
+  buffer ??= await fetchBytes(url);
+
+  if (isHgtFileName(fileName)) {
+    const tile = await decodeHgt(buffer, fileName, options.crop);
+    return rasterFromElevations(
+      tile.width,
+      tile.height,
+      tile.data,
+      tile.noData,
+      tile.georeference,
+    );
+  }
+
+  if (isGeoTIFF(buffer)) {
+    const tiff = await decodeGeoTIFF(buffer);
+    return rasterFromElevations(
+      tiff.width,
+      tiff.height,
+      tiff.data,
+      tiff.noData,
+      tiff.georeference ?? undefined,
+    );
+  }
+
+  return rasterFromPixels(await decodePixelBytes(buffer), options.encoding);
+}
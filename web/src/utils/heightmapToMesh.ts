@@ -1,15 +1,34 @@
-import { Point } from './Point'
+import { HeightGrid } from './HeightGrid'
+import { HeightmapLoadOptions, HeightmapRaster, loadHeightmapRaster } from './heightmapLoader'
+import {
+  DEFAULT_TERRAIN_FILTERS,
+  TerrainFilter,
+  applyTerrainFilters,
+  getTerrainFilterRadius,
+} from './terrainFilters'
 import {
-  TOPOMAP_WORLD_SIZE_X,
-  TOPOMAP_WORLD_SIZE_Y,
-  TOPOMAP_WORLD_SIZE_Z,
   GAMEWORLD_RESOLUTION,
   TOPOMAP_GAME_SIZE_LIMIT_X,
   TOPOMAP_GAME_SIZE_LIMIT_Y,
-  GAUSSIAN_ENABLED,
-  GAUSSIAN_KERNEL_SIZE,
-  GAUSSIAN_SIGMA
 } from './constants'
+import { getAdaptiveGridSize } from './terrainRtin'
+
+/** Steps of the heightmap pipeline, in order */
+export type HeightmapPipelineStage = 'loading' | 'sampling' | 'resampling' | 'filtering'
+
+/** Receives the progress of a pipeline step (fraction 0-1) */
+export type HeightmapProgressCallback = (stage: HeightmapPipelineStage, fraction: number) => void
+
+/**
+ * World size of a map in km. The pipeline is given it rather than reading the
+ * world scaling, so that requests for different maps can run side by side.
+ */
+export interface WorldSize {
+  x: number
+  y: number
+  /** Elevation range, used when the heightmap has none of its own */
+  z: number
+}
 
 export interface HeightmapOptions {
   width?: number
@@ -19,61 +38,6 @@ export interface HeightmapOptions {
   segmentsZ?: number
 }
 
-function generateGaussianKernel(size: number, sigma: number): Float32Array {
-  const kernel = new Float32Array(size * size)
-  const center = Math.floor(size / 2)
-  let sum = 0
-
-  for (let y = 0; y < size; y++) {
-    for (let x = 0; x < size; x++) {
-      const dx = x - center
-      const dy = y - center
-      const value = Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma))
-      kernel[y * size + x] = value
-      sum += value
-    }
-  }
-
-  for (let i = 0; i < kernel.length; i++) {
-    kernel[i] /= sum
-  }
-
-  return kernel
-}
-
-export function applyGaussianBlur(
-  data: Point[][],
-  width: number,
-  height: number,
-  kernelSize: number,
-  sigma: number
-): Point[][] {
-  const kernel = generateGaussianKernel(kernelSize, sigma)
-  const result: Point[][] = []
-  const halfKernel = Math.floor(kernelSize / 2)
-
-  for (let y = 0; y < height; y++) {
-    const row: Point[] = []
-    for (let x = 0; x < width; x++) {
-      let sum = 0
-
-      for (let ky = 0; ky < kernelSize; ky++) {
-        for (let kx = 0; kx < kernelSize; kx++) {
-          const sx = Math.min(Math.max(x + kx - halfKernel, 0), width - 1)
-          const sy = Math.min(Math.max(y + ky - halfKernel, 0), height - 1)
-          sum += data[sy][sx].worldZ * kernel[ky * kernelSize + kx]
-        }
-      }
-
-      const originalPoint = data[y][x]
-      row.push(Point.fromWorldCoords(originalPoint.worldX, originalPoint.worldY, sum))
-    }
-    result.push(row)
-  }
-
-  return result
-}
-
 function hermiteFade(t: number): number {
   return t * t * (3 - 2 * t)
 }
@@ -83,21 +47,21 @@ function lerp(a: number, b: number, t: number): number {
 }
 
 /**
- * Samples a height value from the heightmap using bilinear interpolation with Hermite smoothing.
- * @param data - The heightmap data as a flat Float32Array
- * @param imgWidth - Width of the heightmap in pixels
- * @param imgHeight - Height of the heightmap in pixels
+ * Samples a height value from a height grid using bilinear interpolation with Hermite smoothing.
+ * Void (NaN) corners are left out of the blend; the result is NaN only when
+ * all four corners are voids.
+ * @param data - The height grid
  * @param u - Horizontal coordinate in normalized [0, 1] range
  * @param v - Vertical coordinate in normalized [0, 1] range
- * @returns The interpolated height value at the given UV coordinates
+ * @returns The interpolated height value (world km) at the given UV coordinates
  */
 export function sampleHeightBilinear(
-  data: Point[][],
-  imgWidth: number,
-  imgHeight: number,
+  data: HeightGrid,
   u: number,
   v: number
 ): number {
+  const imgWidth = data.width
+  const imgHeight = data.height
   const x = u * (imgWidth - 1)
   const y = v * (imgHeight - 1)
 
@@ -109,130 +73,369 @@ export function sampleHeightBilinear(
   const tx = hermiteFade(x - x0)
   const ty = hermiteFade(y - y0)
 
-  const v00 = data[y0][x0].worldZ
-  const v10 = data[y0][x1].worldZ
-  const v01 = data[y1][x0].worldZ
-  const v11 = data[y1][x1].worldZ
+  const v00 = data.getWorldZ(x0, y0)
+  const v10 = data.getWorldZ(x1, y0)
+  const v01 = data.getWorldZ(x0, y1)
+  const v11 = data.getWorldZ(x1, y1)
 
-  const top = lerp(v00, v10, tx)
-  const bottom = lerp(v01, v11, tx)
+  if (!Number.isNaN(v00 + v10 + v01 + v11)) {
+    const top = lerp(v00, v10, tx)
+    const bottom = lerp(v01, v11, tx)
+    return lerp(top, bottom, ty)
+  }
 
-  return lerp(top, bottom, ty)
+  // Weighted average of the valid corners
+  const corners = [
+    [v00, (1 - tx) * (1 - ty)],
+    [v10, tx * (1 - ty)],
+    [v01, (1 - tx) * ty],
+    [v11, tx * ty],
+  ]
+  let sum = 0
+  let weight = 0
+  for (const [value, w] of corners) {
+    if (Number.isNaN(value)) continue
+    sum += value * w
+    weight += w
+  }
+  if (weight > 0) return sum / weight
+  // Only zero-weight corners are valid: fall back to their plain average
+  const valid = corners.filter(([value]) => !Number.isNaN(value))
+  return valid.length > 0 ? valid.reduce((acc, [value]) => acc + value, 0) / valid.length : NaN
 }
 
-export async function loadHeightmapImage(url: string): Promise<ImageData> {
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    img.crossOrigin = 'anonymous'
-    img.onload = () => {
-      const canvas = document.createElement('canvas')
-      canvas.width = img.width
-      canvas.height = img.height
-      const ctx = canvas.getContext('2d')
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'))
-        return
-      }
-      ctx.drawImage(img, 0, 0)
-      resolve(ctx.getImageData(0, 0, img.width, img.height))
+/**
+ * Turns the voids left in a grid into a validity mask. Masked samples are set
+ * to the lowest valid height so that the mesh stays finite.
+ * @returns A grid with a mask, or the same grid when there are no voids
+ */
+function maskVoids(grid: HeightGrid): HeightGrid {
+  if (!grid.data.some(Number.isNaN)) return grid
+
+  const { min } = grid.getWorldHeightRange()
+  const floor = min === Infinity ? 0 : min
+  const data = grid.data.slice()
+  const valid = new Uint8Array(data.length)
+  for (let i = 0; i < data.length; i++) {
+    if (Number.isNaN(data[i])) {
+      data[i] = floor
+    } else {
+      valid[i] = 1
     }
-    img.onerror = () => reject(new Error(`Failed to load image: ${url}`))
-    img.src = url
-  })
+  }
+  return new HeightGrid(grid.width, grid.height, data, grid.extentX, grid.extentY, valid)
 }
 
-
 /**
- * Creates a 2D matrix of Point objects from heightmap image data.
- * Converts pixel coordinates to world coordinates using TOPOMAP_WORLD_SIZE constants.
- * @param imageData - The heightmap image data
+ * Creates a height grid from a decoded heightmap raster.
+ * The grid spans the whole world (worldSize x/y) at the raster's resolution.
+ * Heights use the raster's real elevation range when known, so they are true
+ * to scale; otherwise they span worldSize.z. Parts of the window outside the
+ * image become voids (NaN), as do the raster's own voids.
+ * @param raster - The decoded heightmap
+ * @param worldSize - World size of the map in km
  * @param uCenter - Center of the window in UV space (0-1)
  * @param vCenter - Center of the window in UV space (0-1)
  * @param uSpan - Span of the window in U space
  * @param vSpan - Span of the window in V space
- * @returns A 2D array of Point objects where [row][col] corresponds to [y][x] in the image
+ * @param onProgress - Called after each row with the fraction done
+ * @param width - Samples across the window (default: the raster's width)
+ * @param height - Samples down the window (default: the raster's height)
+ * @returns A grid where (col, row) corresponds to (x, y) in the window
  */
-export function createPointMatrixFromHeightmap(
-  imageData: ImageData,
+export function createHeightGridFromHeightmap(
+  raster: HeightmapRaster,
+  worldSize: WorldSize,
   uCenter: number = 0.5,
   vCenter: number = 0.5,
   uSpan: number = 1.0,
   vSpan: number = 1.0,
-): Point[][] {
-  const imgWidth = imageData.width
-  const imgHeight = imageData.height
+  onProgress?: (fraction: number) => void,
+  width: number = raster.width,
+  height: number = raster.height,
+): HeightGrid {
+  const imgWidth = raster.width
+  const imgHeight = raster.height
+  // Rasters read in part cover a smaller rectangle of the source's UV space
+  const bounds = raster.bounds ?? { uMin: 0, vMin: 0, uMax: 1, vMax: 1 }
 
-  const matrix: Point[][] = []
+  const grid = new HeightGrid(width, height, undefined, worldSize.x, worldSize.y)
 
   const uMin = uCenter - uSpan / 2;
   const vMin = vCenter - vSpan / 2;
 
-  for (let iy = 0; iy < imgHeight; iy++) {
-    const row: Point[] = []
-    for (let ix = 0; ix < imgWidth; ix++) {
-      // Current position in the window [0, 1]
-      const tu = ix / (imgWidth - 1);
-      const tv = iy / (imgHeight - 1);
-
-      // Map window position back to absolute image UV
-      const u = uMin + tu * uSpan;
-      const v = vMin + tv * vSpan;
+  // Elevation range in km that normalised heights [0, 1] map onto
+  const range = raster.elevationRangeM
+  const sizeZ = range ? (range.max - range.min) / 1000 : worldSize.z
 
-      // Clamp UVs to [0, 1] to avoid out of bounds
-      const clampedU = Math.max(0, Math.min(1, u));
-      const clampedV = Math.max(0, Math.min(1, v));
+  for (let iy = 0; iy < height; iy++) {
+    for (let ix = 0; ix < width; ix++) {
+      // Current position in the window [0, 1]
+      const tu = ix / (width - 1);
+      const tv = iy / (height - 1);
 
-      const pixX = Math.round(clampedU * (imgWidth - 1));
-      const pixY = Math.round(clampedV * (imgHeight - 1));
+      // Map window position back to absolute image UV, then into the raster
+      const u = (uMin + tu * uSpan - bounds.uMin) / (bounds.uMax - bounds.uMin);
+      const v = (vMin + tv * vSpan - bounds.vMin) / (bounds.vMax - bounds.vMin);
 
-      const idx = (pixY * imgWidth + pixX) * 4
-      const normalizedHeight = imageData.data[idx] / 255 
+      // There is no data past the image edges (allowing for rounding)
+      if (u < -1e-9 || u > 1 + 1e-9 || v < -1e-9 || v > 1 + 1e-9) {
+        grid.setWorldZ(ix, iy, NaN)
+        continue
+      }
 
-      // World coordinates for the resulting point matrix
-      // These span [0, TOPOMAP_WORLD_SIZE_X/Y]
-      const worldX = tu * TOPOMAP_WORLD_SIZE_X;
-      const worldY = tv * TOPOMAP_WORLD_SIZE_Y;
-      const worldZ = normalizedHeight * TOPOMAP_WORLD_SIZE_Z;
+      const pixX = Math.round(Math.max(0, Math.min(1, u)) * (imgWidth - 1));
+      const pixY = Math.round(Math.max(0, Math.min(1, v)) * (imgHeight - 1));
 
-      row.push(Point.fromWorldCoords(worldX, worldY, worldZ))
+      const normalizedHeight = raster.heights[pixY * imgWidth + pixX]
+      grid.setWorldZ(ix, iy, normalizedHeight * sizeZ)
     }
-    matrix.push(row)
+    onProgress?.((iy + 1) / height)
   }
 
-  return matrix
+  return grid
 }
 
 /**
- * Resamples a point matrix to a new resolution using bilinear interpolation.
- * @param data - The original point matrix
- * @param targetWidth - Desired number of points horizontally
- * @param targetHeight - Desired number of points vertically
- * @returns A new point matrix at the target resolution
+ * Resamples a height grid to a new resolution using bilinear interpolation.
+ * @param data - The original grid
+ * @param targetWidth - Desired number of samples horizontally
+ * @param targetHeight - Desired number of samples vertically
+ * @param onProgress - Called after each row with the fraction done
+ * @returns A new grid over the same extent at the target resolution
  */
-export function resamplePointMatrix(
-  data: Point[][],
+export function resampleHeightGrid(
+  data: HeightGrid,
   targetWidth: number,
-  targetHeight: number
-): Point[][] {
-  const imgHeight = data.length
-  const imgWidth = data[0]?.length || 0
-  const matrix: Point[][] = []
+  targetHeight: number,
+  onProgress?: (fraction: number) => void
+): HeightGrid {
+  const grid = new HeightGrid(targetWidth, targetHeight, undefined, data.extentX, data.extentY)
 
   for (let iy = 0; iy < targetHeight; iy++) {
-    const row: Point[] = []
     for (let ix = 0; ix < targetWidth; ix++) {
       const u = ix / (targetWidth - 1)
       const v = iy / (targetHeight - 1)
+      grid.setWorldZ(ix, iy, sampleHeightBilinear(data, u, v))
+    }
+    onProgress?.((iy + 1) / targetHeight)
+  }
+  return grid
+}
 
-      const worldX = u * TOPOMAP_WORLD_SIZE_X;
-      const worldY = v * TOPOMAP_WORLD_SIZE_Y;
+/**
+ * Runs the pipeline on an already decoded heightmap: samples the window,
+ * resamples it to the mesh resolution (GAMEWORLD_RESOLUTION per game unit),
+ * filters it and masks what is left of the voids.
+ *
+ * With fullResolution, the grid instead keeps the heightmap's own resolution
+ * over the window, rounded up to a square of 2^k + 1 samples for adaptive
+ * meshes (see terrainRtin); filter radii are then in those samples.
+ * @param raster - The decoded heightmap
+ * @param worldSize - World size of the map in km
+ * @param uCenter - Center of the window in UV space (0-1)
+ * @param vCenter - Center of the window in UV space (0-1)
+ * @param uSpan - Span of the window in U space
+ * @param vSpan - Span of the window in V space
+ * @param filters - Filter chain applied to the resampled grid
+ * @param onProgress - Receives progress of each pipeline step after loading
+ * @param fullResolution - Build the grid for an adaptive mesh
+ * @returns The height grid the terrain mesh is built from
+ */
+export function getMapMeshHeightGridFromRaster(
+  raster: HeightmapRaster,
+  worldSize: WorldSize,
+  uCenter: number = 0.5,
+  vCenter: number = 0.5,
+  uSpan: number = 1.0,
+  vSpan: number = 1.0,
+  filters: TerrainFilter[] = DEFAULT_TERRAIN_FILTERS,
+  onProgress?: HeightmapProgressCallback,
+  fullResolution: boolean = false,
+): HeightGrid {
+  const gridRaw = createHeightGridFromHeightmap(
+    raster, worldSize, uCenter, vCenter, uSpan, vSpan,
+    (fraction) => onProgress?.('sampling', fraction)
+  )
+  
+  // Up the resolution using bilinear interpolation to reach the final mesh resolution
+  let targetWidth = Math.ceil(GAMEWORLD_RESOLUTION * TOPOMAP_GAME_SIZE_LIMIT_X)
+  let targetHeight = Math.ceil(GAMEWORLD_RESOLUTION * TOPOMAP_GAME_SIZE_LIMIT_Y)
+  if (fullResolution) {
+    // Pixels of the heightmap across the window
+    const bounds = raster.bounds ?? { uMin: 0, vMin: 0, uMax: 1, vMax: 1 }
+    const pixelsX = (uSpan / (bounds.uMax - bounds.uMin)) * (raster.width - 1) + 1
+    const pixelsY = (vSpan / (bounds.vMax - bounds.vMin)) * (raster.height - 1) + 1
+    targetWidth = targetHeight = getAdaptiveGridSize(Math.max(pixelsX, pixelsY, targetWidth, targetHeight))
+  }
+  const grid = resampleHeightGrid(
+    gridRaw, targetWidth, targetHeight,
+    (fraction) => onProgress?.('resampling', fraction)
+  )
+
+  onProgress?.('filtering', 0)
+  const filtered = applyTerrainFilters(
+    grid, filters,
+    (fraction) => onProgress?.('filtering', fraction)
+  )
+
+  return maskVoids(filtered)
+}
+
+/**
+ * Builds the height grid of one terrain tile, sampled straight from the
+ * heightmap over the tile's window. The window is widened by the reach of the
+ * filter chain before filtering and cropped back afterwards, so that the
+ * filters see the same neighbourhood on both sides of a seam between tiles.
+ * Filter radii are in samples of the tile.
+ * @param raster - The decoded heightmap
+ * @param worldSize - World size of the map in km
+ * @param uCenter - Center of the tile window in UV space (0-1)
+ * @param vCenter - Center of the tile window in UV space (0-1)
+ * @param uSpan - Span of the tile window in U space
+ * @param vSpan - Span of the tile window in V space
+ * @param resolution - Samples along each side of the tile
+ * @param extentX - World width of the tile in km
+ * @param extentY - World height of the tile in km
+ * @param filters - Filter chain applied to the tile
+ * @returns A resolution × resolution grid over the tile
+ */
+export function getTerrainTileHeightGrid(
+  raster: HeightmapRaster,
+  worldSize: WorldSize,
+  uCenter: number,
+  vCenter: number,
+  uSpan: number,
+  vSpan: number,
+  resolution: number,
+  extentX: number,
+  extentY: number,
+  filters: TerrainFilter[] = DEFAULT_TERRAIN_FILTERS,
+): HeightGrid {
+  const pad = Math.min(getTerrainFilterRadius(filters), resolution)
+  const size = resolution + 2 * pad
+  const scale = (size - 1) / (resolution - 1)
+  const padded = createHeightGridFromHeightmap(
+    raster, worldSize, uCenter, vCenter, uSpan * scale, vSpan * scale, undefined, size, size
+  )
+  const filtered = applyTerrainFilters(padded, filters)
+
+  const data = new Float32Array(resolution * resolution)
+  for (let row = 0; row < resolution; row++) {
+    const start = (row + pad) * size + pad
+    data.set(filtered.data.subarray(start, start + resolution), row * resolution)
+  }
+  return maskVoids(new HeightGrid(resolution, resolution, data, extentX, extentY))
+}
+
+// Largest normal map baked for a map, in texels per side
+export const MAX_NORMAL_MAP_SIZE = 2048
+
+/**
+ * Terrain normals at the heightmap's own resolution, for lighting a mesh that
+ * has fewer vertices. They are stored as slopes (object-space normals with
+ * the vertical component factored out) so that the vertical exaggeration can
+ * change without baking them again.
+ */
+export interface TerrainNormalMap {
+  /** Texels across; a power of two */
+  width: number
+  /** Texels down; a power of two */
+  height: number
+  /**
+   * Height change per unit of world X then world Y (km per km) at each texel
+   * centre, row-major from the window's top-left. Voids have zero slope.
+   */
+  slopes: Float32Array
+}
+
+/**
+ * Bakes a normal map of the window from the decoded heightmap, at its full
+ * resolution (rounded up to a power of two, up to MAX_NORMAL_MAP_SIZE).
+ * Heights are interpolated bilinearly and differentiated with central
+ * differences; filters aren't applied, so that fine ridges and gullies show.
+ * @param raster - The decoded heightmap
+ * @param worldSize - World size of the map in km
+ * @param uCenter - Center of the window in UV space (0-1)
+ * @param vCenter - Center of the window in UV space (0-1)
+ * @param uSpan - Span of the window in U space
+ * @param vSpan - Span of the window in V space
+ * @param extentX - World width of the window in km
+ * @param extentY - World height of the window in km
+ */
+export function bakeTerrainNormalMap(
+  raster: HeightmapRaster,
+  worldSize: WorldSize,
+  uCenter: number,
+  vCenter: number,
+  uSpan: number,
+  vSpan: number,
+  extentX: number,
+  extentY: number,
+): TerrainNormalMap {
+  const bounds = raster.bounds ?? { uMin: 0, vMin: 0, uMax: 1, vMax: 1 }
+  const range = raster.elevationRangeM
+  const sizeZ = range ? (range.max - range.min) / 1000 : worldSize.z
+
+  const texels = (span: number, boundsSpan: number, pixels: number) => {
+    const wanted = Math.min((span / boundsSpan) * (pixels - 1) + 1, MAX_NORMAL_MAP_SIZE)
+    return 2 ** Math.max(0, Math.ceil(Math.log2(wanted)))
+  }
+  const width = texels(uSpan, bounds.uMax - bounds.uMin, raster.width)
+  const height = texels(vSpan, bounds.vMax - bounds.vMin, raster.height)
+
+  // Heights at the texel centres, in km
+  const heights = new Float32Array(width * height)
+  const uMin = uCenter - uSpan / 2
+  const vMin = vCenter - vSpan / 2
+  for (let ty = 0; ty < height; ty++) {
+    const v = (vMin + ((ty + 0.5) / height) * vSpan - bounds.vMin) / (bounds.vMax - bounds.vMin)
+    const py = Math.max(0, Math.min(1, v)) * (raster.height - 1)
+    const y0 = Math.floor(py)
+    const y1 = Math.min(y0 + 1, raster.height - 1)
+    for (let tx = 0; tx < width; tx++) {
+      const u = (uMin + ((tx + 0.5) / width) * uSpan - bounds.uMin) / (bounds.uMax - bounds.uMin)
+      if (u < 0 || u > 1 || v < 0 || v > 1) {
+        heights[ty * width + tx] = NaN
+        continue
+      }
+      const px = u * (raster.width - 1)
+      const x0 = Math.floor(px)
+      const x1 = Math.min(x0 + 1, raster.width - 1)
+      // A void corner makes the texel a void (NaN propagates)
+      const top = lerp(raster.heights[y0 * raster.width + x0], raster.heights[y0 * raster.width + x1], px - x0)
+      const bottom = lerp(raster.heights[y1 * raster.width + x0], raster.heights[y1 * raster.width + x1], px - x0)
+      heights[ty * width + tx] = lerp(top, bottom, py - y0) * sizeZ
+    }
+  }
 
-      const worldZ = sampleHeightBilinear(data, imgWidth, imgHeight, u, v);
-      row.push(Point.fromWorldCoords(worldX, worldY, worldZ));
+  // Central differences, one-sided next to edges and voids
+  const slope = (at: number, before: number, after: number, spacing: number) => {
+    const hasBefore = !Number.isNaN(before)
+    const hasAfter = !Number.isNaN(after)
+    if (hasBefore && hasAfter) return (after - before) / (2 * spacing)
+    if (hasAfter) return (after - at) / spacing
+    if (hasBefore) return (at - before) / spacing
+    return 0
+  }
+  const spacingX = extentX / width
+  const spacingY = extentY / height
+  const slopes = new Float32Array(width * height * 2)
+  for (let ty = 0; ty < height; ty++) {
+    for (let tx = 0; tx < width; tx++) {
+      const i = ty * width + tx
+      const h = heights[i]
+      if (Number.isNaN(h)) continue
+      const left = tx > 0 ? heights[i - 1] : NaN
+      const right = tx < width - 1 ? heights[i + 1] : NaN
+      const up = ty > 0 ? heights[i - width] : NaN
+      const down = ty < height - 1 ? heights[i + width] : NaN
+      slopes[i * 2] = slope(h, left, right, spacingX)
+      slopes[i * 2 + 1] = slope(h, up, down, spacingY)
     }
-    matrix.push(row)
   }
-  return matrix
+
+  return { width, height, slopes }
 }
 
 /**
@@ -240,37 +443,34 @@ export function resamplePointMatrix(
  * The geometry is sized to match the game world dimensions (1x1 game units) and uses
  * GAMEWORLD_RESOLUTION to determine the mesh density.
  *
- * @param imageUrl - URL of the heightmap image
+ * @param imageUrl - URL of the heightmap (grayscale image or GeoTIFF)
+ * @param worldSize - World size of the map in km
  * @param uCenter - Center of the window in UV space (0-1)
  * @param vCenter - Center of the window in UV space (0-1)
  * @param uSpan - Span of the window in U space
  * @param vSpan - Span of the window in V space
- * @returns A 2D array of Point objects where [row][col] corresponds to [y][x] in the image
+ * @param options - Heightmap decoding options (encoding, tiles, crop, elevation range)
+ * @param filters - Filter chain applied to the resampled grid
+ * @param onProgress - Receives progress of each pipeline step
+ * @param fullResolution - Build the grid for an adaptive mesh (see getMapMeshHeightGridFromRaster)
+ * @returns The height grid the terrain mesh is built from
  */
-export async function getFinalMapMeshPointMatrix(
+export async function getFinalMapMeshHeightGrid(
   imageUrl: string,
+  worldSize: WorldSize,
   uCenter: number = 0.5,
   vCenter: number = 0.5,
   uSpan: number = 1.0,
   vSpan: number = 1.0,
-): Promise<Point[][]> {
-  const imageData = await loadHeightmapImage(imageUrl)
-  const pointMatrixRaw = createPointMatrixFromHeightmap(imageData, uCenter, vCenter, uSpan, vSpan)
-  
-  // Up the resolution using bilinear interpolation to reach the final mesh resolution
-  const targetWidth = Math.ceil(GAMEWORLD_RESOLUTION * TOPOMAP_GAME_SIZE_LIMIT_X)
-  const targetHeight = Math.ceil(GAMEWORLD_RESOLUTION * TOPOMAP_GAME_SIZE_LIMIT_Y)
-  let pointMatrix = resamplePointMatrix(pointMatrixRaw, targetWidth, targetHeight)
-  
-  if (GAUSSIAN_ENABLED) {
-    pointMatrix = applyGaussianBlur(
-      pointMatrix, 
-      targetWidth, 
-      targetHeight, 
-      GAUSSIAN_KERNEL_SIZE, 
-      GAUSSIAN_SIGMA
-    )
-  }
-
-  return pointMatrix
+  options: HeightmapLoadOptions = {},
+  filters: TerrainFilter[] = DEFAULT_TERRAIN_FILTERS,
+  onProgress?: HeightmapProgressCallback,
+  fullResolution: boolean = false,
+): Promise<HeightGrid> {
+  onProgress?.('loading', 0)
+  const raster = await loadHeightmapRaster(imageUrl, options)
+  onProgress?.('loading', 1)
+  return getMapMeshHeightGridFromRaster(
+    raster, worldSize, uCenter, vCenter, uSpan, vSpan, filters, onProgress, fullResolution
+  )
 }
@@ -0,0 +1,173 @@
+import type {
+  HeightmapWorkerRequest,
+  HeightmapWorkerResponse,
+} from "../workers/heightmap.worker";
+import { HeightmapLoadOptions, HeightmapWindow } from "./heightmapLoader";
+import { HeightmapProgressCallback, TerrainNormalMap } from "./heightmapToMesh";
+import { HeightGrid } from "./HeightGrid";
+import { DEFAULT_TERRAIN_FILTERS, TerrainFilter } from "./terrainFilters";
+import { TOPOMAP_WORLD_SIZE_X, TOPOMAP_WORLD_SIZE_Y, TOPOMAP_WORLD_SIZE_Z } from "./constants";
+
+/**
+ * Main-thread side of the heightmap worker. Requests are queued on a single
+ * shared worker, which is started on first use.
+ */
+
+type HeightmapWorkerResult = Extract<HeightmapWorkerResponse, { type: "result" | "normalMap" }>;
+
+interface PendingRequest {
+  resolve: (result: HeightmapWorkerResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: HeightmapProgressCallback;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("../workers/heightmap.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  worker.addEventListener("message", (event: MessageEvent<HeightmapWorkerResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+
+    if (message.type === "progress") {
+      request.onProgress?.(message.stage, message.fraction);
+    } else if (message.type === "error") {
+      pending.delete(message.id);
+      request.reject(new Error(message.message));
+    } else {
+      pending.delete(message.id);
+      request.resolve(message);
+    }
+  });
+  worker.addEventListener("error", (event) => {
+    // The worker failed to start or threw outside a request; fail everything queued
+    const error = new Error(`Heightmap worker failed: ${event.message}`);
+    pending.forEach((request) => request.reject(error));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  });
+
+  return worker;
+}
+
+/**
+ * Same as getFinalMapMeshHeightGrid, but runs the pipeline in the heightmap
+ * worker so that the UI stays responsive. Uses the current world scaling.
+ * @param imageUrl - URL of the heightmap (image, GeoTIFF or .hgt), or a tile template
+ * @param uCenter - Center of the window in UV space (0-1)
+ * @param vCenter - Center of the window in UV space (0-1)
+ * @param uSpan - Span of the window in U space
+ * @param vSpan - Span of the window in V space
+ * @param options - Heightmap decoding options
+ * @param filters - Filter chain applied to the resampled grid
+ * @param onProgress - Receives progress of each pipeline step
+ * @param fullResolution - Build the grid for an adaptive mesh
+ */
+export function loadMapHeightGridInWorker(
+  imageUrl: string,
+  uCenter: number = 0.5,
+  vCenter: number = 0.5,
+  uSpan: number = 1.0,
+  vSpan: number = 1.0,
+  options: HeightmapLoadOptions = {},
+  filters: TerrainFilter[] = DEFAULT_TERRAIN_FILTERS,
+  onProgress?: HeightmapProgressCallback,
+  fullResolution: boolean = false,
+): Promise<HeightGrid> {
+  return sendRequest(
+    { url: imageUrl, uCenter, vCenter, uSpan, vSpan, options, filters, fullResolution },
+    onProgress,
+  ).then(toHeightGrid);
+}
+
+/**
+ * Builds the height grid of one terrain tile in the heightmap worker (see
+ * getTerrainTileHeightGrid). The worker keeps the decoded heightmap of the
+ * last map it loaded, so tiles of the current map don't decode it again.
+ * @param imageUrl - URL of the heightmap (image, GeoTIFF or .hgt), or a tile template
+ * @param tileWindow - The tile's window into the heightmap
+ * @param resolution - Samples along each side of the tile
+ * @param extentX - World width of the tile in km
+ * @param extentY - World height of the tile in km
+ * @param options - Heightmap decoding options
+ * @param filters - Filter chain applied to the tile
+ */
+export function loadTerrainTileInWorker(
+  imageUrl: string,
+  tileWindow: HeightmapWindow,
+  resolution: number,
+  extentX: number,
+  extentY: number,
+  options: HeightmapLoadOptions = {},
+  filters: TerrainFilter[] = DEFAULT_TERRAIN_FILTERS,
+): Promise<HeightGrid> {
+  return sendRequest({
+    url: imageUrl,
+    ...tileWindow,
+    options,
+    filters,
+    tile: { resolution, extentX, extentY },
+  }).then(toHeightGrid);
+}
+
+/**
+ * Bakes the normal map of a map's window in the heightmap worker (see
+ * bakeTerrainNormalMap), reusing the heightmap the worker decoded for it.
+ * @param imageUrl - URL of the heightmap (image, GeoTIFF or .hgt), or a tile template
+ * @param mapWindow - The map's window into the heightmap
+ * @param extentX - World width of the window in km
+ * @param extentY - World height of the window in km
+ * @param options - Heightmap decoding options, the same as the map was loaded with
+ */
+export function bakeTerrainNormalMapInWorker(
+  imageUrl: string,
+  mapWindow: HeightmapWindow,
+  extentX: number,
+  extentY: number,
+  options: HeightmapLoadOptions = {},
+): Promise<TerrainNormalMap> {
+  return sendRequest({
+    url: imageUrl,
+    ...mapWindow,
+    options,
+    filters: [],
+    normalMap: { extentX, extentY },
+  }).then((result) => {
+    if (result.type !== "normalMap") throw new Error("Heightmap worker: expected a normal map");
+    const { width, height, slopes } = result;
+    return { width, height, slopes };
+  });
+}
+
+function toHeightGrid(result: HeightmapWorkerResult): HeightGrid {
+  if (result.type !== "result") throw new Error("Heightmap worker: expected a height grid");
+  return new HeightGrid(result.width, result.height, result.heights, result.extentX, result.extentY, result.valid);
+}
+
+/** Queues a request on the worker, adding the id and the current world size. */
+function sendRequest(
+  request: Omit<HeightmapWorkerRequest, "id" | "worldSize">,
+  onProgress?: HeightmapProgressCallback,
+): Promise<HeightmapWorkerResult> {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject, onProgress });
+
+    getWorker().postMessage({
+      ...request,
+      id,
+      // Relative URLs would otherwise resolve against the worker script. URL
+      // encodes the braces of tile templates, so put those back.
+      url: new URL(request.url, window.location.href).href.replace(/%7B([zxy])%7D/gi, "{$1}"),
+      worldSize: { x: TOPOMAP_WORLD_SIZE_X, y: TOPOMAP_WORLD_SIZE_Y, z: TOPOMAP_WORLD_SIZE_Z },
+    } satisfies HeightmapWorkerRequest);
+  });
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { decodeHgt, HGT_VOID_VALUE, isHgtFileName, parseHgtFileName } from "./hgt";
+
+/** A 3x3 tile, i.e. samples every half degree, as big-endian int16. */
+function buildTile(values: number[]): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(values.length * 2));
+  values.forEach((value, i) => view.setInt16(i * 2, value, false));
+  return view.buffer;
+}
+
+const TILE = [100, 110, 120, 200, HGT_VOID_VALUE, 220, 300, 310, 320];
+
+async function gzip(buffer: ArrayBuffer): Promise<ArrayBuffer> {
+  const stream = new Blob([buffer]).stream().pipeThrough(new CompressionStream("gzip"));
+  return new Response(stream).arrayBuffer();
+}
+
+describe("parseHgtFileName", () => {
+  it("reads the south-west corner from the name", () => {
+    expect(parseHgtFileName("S27E152.hgt")).toEqual({ south: -27, west: 152, north: -26, east: 153 });
+    expect(parseHgtFileName("https://example.com/tiles/n45w122.hgt.gz?v=2")).toEqual({
+      south: 45,
+      west: -122,
+      north: 46,
+      east: -121,
+    });
+  });
+
+  it("rejects other names", () => {
+    expect(isHgtFileName("heightmap.png")).toBe(false);
+    expect(() => parseHgtFileName("heightmap.png")).toThrow("Not an SRTM tile name");
+  });
+});
+
+describe("decodeHgt", () => {
+  it("decodes a whole tile with samples on the tile edges", async () => {
+    const tile = await decodeHgt(buildTile(TILE), "S27E152.hgt");
+    expect(tile.width).toBe(3);
+    expect(tile.height).toBe(3);
+    expect(Array.from(tile.data)).toEqual(TILE);
+    expect(tile.noData).toBe(HGT_VOID_VALUE);
+    // Outer edges lie half a sample beyond the tile
+    expect(tile.georeference).toEqual({ epsg: 4326, west: 151.75, east: 153.25, north: -25.75, south: -27.25 });
+  });
+
+  it("crops to the samples covering a window", async () => {
+    const tile = await decodeHgt(buildTile(TILE), "S27E152.hgt", {
+      west: 152.6,
+      east: 153,
+      south: -27,
+      north: -26.6,
+    });
+    expect(tile.width).toBe(2);
+    expect(tile.height).toBe(2);
+    expect(Array.from(tile.data)).toEqual([HGT_VOID_VALUE, 220, 310, 320]);
+    expect(tile.georeference).toEqual({ epsg: 4326, west: 152.25, east: 153.25, north: -26.25, south: -27.25 });
+  });
+
+  it("inflates gzipped tiles", async () => {
+    const tile = await decodeHgt(await gzip(buildTile(TILE)), "S27E152.hgt.gz");
+    expect(Array.from(tile.data)).toEqual(TILE);
+  });
+
+  it("rejects files that aren't square", async () => {
+    await expect(decodeHgt(new ArrayBuffer(6), "S27E152.hgt")).rejects.toThrow("not a square SRTM tile");
+  });
+});
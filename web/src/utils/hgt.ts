@@ -0,0 +1,116 @@
+import { GeoBounds, GeoReference, inflate } from "./geotiff";
+
+/**
+ * Reader for raw SRTM .hgt tiles.
+ *
+ * A tile covers one degree of latitude and longitude and is named after its
+ * south-west corner (e.g. S27E152.hgt covers 152-153°E, 27-26°S). Samples are
+ * big-endian signed 16-bit metres, stored in rows from north to south, with
+ * the first and last rows/columns lying exactly on the tile edges. SRTM1 tiles
+ * are 3601x3601 samples and SRTM3 tiles are 1201x1201.
+ */
+
+/** Marks voids in the elevation data */
+export const HGT_VOID_VALUE = -32768;
+
+export interface HgtTile {
+  width: number;
+  height: number;
+  /** Elevations in metres, row-major from the north-west sample */
+  data: Float32Array;
+  /** Always HGT_VOID_VALUE */
+  noData: number;
+  georeference: GeoReference;
+}
+
+const HGT_FILENAME_PATTERN = /([NS])(\d{1,2})([EW])(\d{1,3})\.hgt(\.gz)?$/i;
+
+/** Returns true if the URL or file name looks like an SRTM .hgt tile. */
+export function isHgtFileName(name: string): boolean {
+  return HGT_FILENAME_PATTERN.test(name.split(/[?#]/)[0]);
+}
+
+/**
+ * Works out the bounds of a tile from its file name.
+ * @param name - File name or URL, e.g. "S27E152.hgt"
+ * @returns Bounds in degrees (south-west corner plus one degree)
+ */
+export function parseHgtFileName(name: string): GeoBounds {
+  const match = HGT_FILENAME_PATTERN.exec(name.split(/[?#]/)[0]);
+  if (!match) {
+    throw new Error(`Not an SRTM tile name: ${name} (expected e.g. S27E152.hgt)`);
+  }
+  const south = parseInt(match[2], 10) * (match[1].toUpperCase() === "S" ? -1 : 1);
+  const west = parseInt(match[4], 10) * (match[3].toUpperCase() === "W" ? -1 : 1);
+  return { south, west, north: south + 1, east: west + 1 };
+}
+
+/**
+ * Decodes an SRTM .hgt tile, optionally cropped to a lat/lon window.
+ * Voids keep the HGT_VOID_VALUE marker.
+ * @param buffer - Tile contents (raw or gzipped)
+ * @param name - File name or URL of the tile, used to work out its bounds
+ * @param crop - Lat/lon window to keep; the whole tile when omitted
+ */
+export async function decodeHgt(
+  buffer: ArrayBuffer,
+  name: string,
+  crop?: GeoBounds,
+): Promise<HgtTile> {
+  let bytes: Uint8Array = new Uint8Array(buffer);
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    bytes = await inflate(bytes, "gzip");
+  }
+
+  const size = Math.round(Math.sqrt(bytes.length / 2));
+  if (size * size * 2 !== bytes.length) {
+    throw new Error(`${name} is not a square SRTM tile (${bytes.length} bytes)`);
+  }
+
+  const tile = parseHgtFileName(name);
+  const step = 1 / (size - 1); // degrees between samples
+
+  // Sample index range covering the crop window (inclusive)
+  let col0 = 0;
+  let col1 = size - 1;
+  let row0 = 0;
+  let row1 = size - 1;
+  if (crop) {
+    // The epsilon stops window edges that sit on a sample from rounding outwards
+    const clampIndex = (i: number) => Math.max(0, Math.min(size - 1, i));
+    const startIndex = (degrees: number) => clampIndex(Math.floor(degrees / step + 1e-6));
+    const endIndex = (degrees: number) => clampIndex(Math.ceil(degrees / step - 1e-6));
+    col0 = startIndex(crop.west - tile.west);
+    col1 = endIndex(crop.east - tile.west);
+    row0 = startIndex(tile.north - crop.north);
+    row1 = endIndex(tile.north - crop.south);
+    if (col1 <= col0 || row1 <= row0) {
+      throw new Error(`Crop window does not overlap ${name}`);
+    }
+  }
+
+  const width = col1 - col0 + 1;
+  const height = row1 - row0 + 1;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const elevations = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      elevations[y * width + x] = view.getInt16(((row0 + y) * size + col0 + x) * 2, false);
+    }
+  }
+
+  // Samples sit on the grid lines, so the outer edges are half a step out
+  return {
+    width,
+    height,
+    data: elevations,
+    noData: HGT_VOID_VALUE,
+    georeference: {
+      epsg: 4326,
+      west: tile.west + (col0 - 0.5) * step,
+      east: tile.west + (col1 + 0.5) * step,
+      north: tile.north - (row0 - 0.5) * step,
+      south: tile.north - (row1 + 0.5) * step,
+    },
+  };
+}
@@ -0,0 +1,350 @@
+import { GPSPosition } from "./gpsUtils";
+import { createMockGPSProvider } from "./mockGps";
+
+/**
+ * Where the app gets the user's position from. Every source delivers the
+ * same fixes through the same callbacks, so the map can be demoed and tested
+ * at a desk with a simulated walk or a recorded track instead of real GPS.
+ *
+ * The source is picked with the "location" URL parameter (gps, simulated,
+ * trail or replay, with "replay" giving the URL of a GPX or CSV track), or
+ * with the toggle shown in development builds. The trail source is in
+ * trailSimulator.ts.
+ */
+
+export const LOCATION_SOURCE_KINDS = ["gps", "simulated", "trail", "replay"] as const;
+export type LocationSourceKind = (typeof LOCATION_SOURCE_KINDS)[number];
+
+/** A position fix with what is known about it */
+export interface LocationFix extends GPSPosition {
+  /** Standard deviation of the error east and north (1 σ) in metres, or null when unknown */
+  accuracyM: number | null;
+  /** Height above the WGS84 ellipsoid in metres, or null when unknown */
+  altitudeM: number | null;
+  /** Direction of travel in degrees clockwise from true north, or null when unknown */
+  headingDeg: number | null;
+  /** Ground speed in m/s, or null when unknown */
+  speedMps: number | null;
+  /** Time of the fix in ms since the epoch */
+  timestamp: number;
+  /** Set when the fix doesn't follow on from the one before, e.g. a replay starting over */
+  discontinuity?: boolean;
+}
+
+export interface LocationSource {
+  kind: LocationSourceKind;
+  /**
+   * Starts delivering fixes.
+   * @param onFix - Called with every new fix
+   * @param onError - Called with a readable message when fixes can't be had
+   * @returns Stops the source
+   */
+  start(onFix: (fix: LocationFix) => void, onError: (message: string) => void): () => void;
+}
+
+const GEOLOCATION_OPTIONS: PositionOptions = { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 };
+
+// The Geolocation API's accuracy is the radius of a 95% circle; for errors
+// normal in each axis that is sqrt(chi²₂(0.95)) ≈ 2.45 standard deviations
+const ACCURACY_95_TO_SIGMA = 1 / Math.sqrt(5.991);
+
+/** Standard deviation of a position given as a 95% radius, or null when unknown. */
+const sigmaFrom95Radius = (radius: number | null) => (radius !== null ? radius * ACCURACY_95_TO_SIGMA : null);
+
+/** Radius of the 95% circle of a fix's accuracy, the figure GPS receivers show. */
+export const radius95FromSigma = (sigma: number) => sigma / ACCURACY_95_TO_SIGMA;
+
+// Mean Earth radius in metres, for distances between fixes
+const EARTH_RADIUS_M = 6371008.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance in metres between two positions. */
+export function distanceMeters(a: GPSPosition, b: GPSPosition): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Initial bearing in degrees clockwise from north from one position to another. */
+function bearingDegrees(a: GPSPosition, b: GPSPosition): number {
+  const lat1 = toRadians(a.latitude);
+  const lat2 = toRadians(b.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+function geolocationErrorMessage(error: GeolocationPositionError): string {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return "Permission Denied. Check your browser's location settings.";
+    case error.POSITION_UNAVAILABLE:
+      return "Position Unavailable";
+    case error.TIMEOUT:
+      return "GPS Timeout";
+    default:
+      return "GPS Error";
+  }
+}
+
+function fromGeolocation(position: GeolocationPosition): LocationFix {
+  const { coords } = position;
+  return {
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    accuracyM: sigmaFrom95Radius(coords.accuracy ?? null),
+    altitudeM: coords.altitude,
+    // Browsers report NaN while standing still
+    headingDeg: coords.heading !== null && !Number.isNaN(coords.heading) ? coords.heading : null,
+    speedMps: coords.speed,
+    timestamp: position.timestamp,
+  };
+}
+
+/** The device's GPS through the browser's Geolocation API. */
+export function createBrowserLocationSource(): LocationSource {
+  return {
+    kind: "gps",
+    start(onFix, onError) {
+      if (!window.isSecureContext) {
+        onError("Insecure Context (Requires HTTPS)");
+        return () => {};
+      }
+      if (!navigator.geolocation) {
+        onError("Geolocation not supported");
+        return () => {};
+      }
+
+      let watchId: number | null = null;
+      let stopped = false;
+      // A first fix, so that permission problems are reported straight away
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          if (stopped) return;
+          onFix(fromGeolocation(position));
+          watchId = navigator.geolocation.watchPosition(
+            (watchPos) => onFix(fromGeolocation(watchPos)),
+            (error) => {
+              // Timeouts are common under cover and followed by new fixes
+              if (error.code === error.TIMEOUT) {
+                console.error("Watch error:", error);
+              } else {
+                onError(geolocationErrorMessage(error));
+              }
+            },
+            GEOLOCATION_OPTIONS,
+          );
+        },
+        (error) => {
+          if (!stopped) onError(geolocationErrorMessage(error));
+        },
+        GEOLOCATION_OPTIONS,
+      );
+
+      return () => {
+        stopped = true;
+        if (watchId !== null) navigator.geolocation.clearWatch(watchId);
+      };
+    },
+  };
+}
+
+export interface SimulatedLocationOptions {
+  /** Where the walk starts, e.g. the center of the map */
+  initialLatitude?: number;
+  initialLongitude?: number;
+  /** Walking speed (default: 1 m/s) */
+  speedMps?: number;
+}
+
+// Accuracy reported by the simulated source
+const SIMULATED_ACCURACY_M = 5;
+
+/** A walk in a small circle around a starting point (see createMockGPSProvider). */
+export function createSimulatedLocationSource(options: SimulatedLocationOptions = {}): LocationSource {
+  const { speedMps = 1 } = options;
+  return {
+    kind: "simulated",
+    start(onFix) {
+      const provider = createMockGPSProvider({
+        initialLatitude: options.initialLatitude,
+        initialLongitude: options.initialLongitude,
+        simulateMovement: true,
+        movementSpeedMetersPerSecond: speedMps,
+      });
+      let previous: GPSPosition | null = null;
+      const toFix = (position: GPSPosition): LocationFix => {
+        const fix: LocationFix = {
+          ...position,
+          accuracyM: SIMULATED_ACCURACY_M,
+          altitudeM: null,
+          headingDeg: previous ? bearingDegrees(previous, position) : null,
+          speedMps,
+          timestamp: Date.now(),
+        };
+        previous = position;
+        return fix;
+      };
+      onFix(toFix(provider.getPosition()));
+      return provider.startMovement((position) => onFix(toFix(position)));
+    },
+  };
+}
+
+/** Parses an ISO date, or a number of seconds (or ms, when large) since the epoch. */
+function parseTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const number = Number(value);
+  if (Number.isFinite(number)) return number > 1e11 ? number : number * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : date;
+}
+
+const optionalNumber = (value: string | null | undefined) => {
+  if (value === null || value === undefined || value.trim() === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Reads the fixes of a recorded track: a GPX file (track points, else route
+ * points) or a CSV file with a header naming lat/latitude, lon/lng/longitude
+ * and optionally time/timestamp, accuracy, altitude/ele, heading/course and
+ * speed columns. Accuracy is a 95% radius, as recorded from the Geolocation
+ * API. Fixes without a time are taken one second apart.
+ * @param text - Contents of the file
+ */
+export function parseLocationTrack(text: string): LocationFix[] {
+  const fixes: LocationFix[] = [];
+  if (text.trimStart().startsWith("<")) {
+    const doc = new DOMParser().parseFromString(text, "application/xml");
+    let points = Array.from(doc.getElementsByTagName("trkpt"));
+    if (points.length === 0) points = Array.from(doc.getElementsByTagName("rtept"));
+    for (const point of points) {
+      const child = (name: string) => point.getElementsByTagName(name)[0]?.textContent;
+      fixes.push({
+        latitude: Number(point.getAttribute("lat")),
+        longitude: Number(point.getAttribute("lon")),
+        // GPX has no accuracy in metres, only dilutions of precision
+        accuracyM: null,
+        altitudeM: optionalNumber(child("ele")),
+        headingDeg: optionalNumber(child("course")),
+        speedMps: optionalNumber(child("speed")),
+        timestamp: parseTime(child("time")) ?? NaN,
+      });
+    }
+  } else {
+    const [header, ...rows] = text.trim().split(/\r?\n/);
+    const columns = header.split(",").map((name) => name.trim().toLowerCase());
+    const column = (...names: string[]) => columns.findIndex((name) => names.includes(name));
+    const lat = column("lat", "latitude");
+    const lon = column("lon", "lng", "longitude");
+    if (lat < 0 || lon < 0) throw new Error("Track CSV needs latitude and longitude columns");
+    const time = column("time", "timestamp");
+    const accuracy = column("accuracy");
+    const altitude = column("altitude", "ele", "elevation");
+    const heading = column("heading", "course");
+    const speed = column("speed");
+    for (const row of rows) {
+      const cells = row.split(",");
+      const cell = (index: number) => (index >= 0 ? cells[index] : null);
+      fixes.push({
+        latitude: Number(cells[lat]),
+        longitude: Number(cells[lon]),
+        accuracyM: sigmaFrom95Radius(optionalNumber(cell(accuracy))),
+        altitudeM: optionalNumber(cell(altitude)),
+        headingDeg: optionalNumber(cell(heading)),
+        speedMps: optionalNumber(cell(speed)),
+        timestamp: parseTime(cell(time)) ?? NaN,
+      });
+    }
+  }
+
+  const valid = fixes.filter((fix) => Number.isFinite(fix.latitude) && Number.isFinite(fix.longitude));
+  if (valid.length === 0) throw new Error("The track has no positions");
+  // Space untimed fixes a second apart
+  valid.forEach((fix, i) => {
+    if (!Number.isFinite(fix.timestamp)) fix.timestamp = i > 0 ? valid[i - 1].timestamp + 1000 : 0;
+  });
+  return valid;
+}
+
+export interface ReplayLocationOptions {
+  /** Playback speed relative to the recording (default: 1) */
+  speed?: number;
+  /** Start over at the end of the track (default: true) */
+  loop?: boolean;
+}
+
+/**
+ * Plays back a recorded track (see parseLocationTrack) with its original
+ * timing. Missing headings and speeds are worked out from consecutive fixes,
+ * and fixes carry the time they are played at.
+ * @param url - URL of the GPX or CSV file
+ */
+export function createReplayLocationSource(url: string, options: ReplayLocationOptions = {}): LocationSource {
+  const { speed = 1, loop = true } = options;
+  return {
+    kind: "replay",
+    start(onFix, onError) {
+      let timer: number | null = null;
+      let stopped = false;
+
+      const play = (track: LocationFix[], index: number, looped: boolean) => {
+        if (stopped) return;
+        const fix = track[index];
+        const previous = index > 0 ? track[index - 1] : null;
+        const seconds = previous ? (fix.timestamp - previous.timestamp) / 1000 : 0;
+        onFix({
+          ...fix,
+          headingDeg: fix.headingDeg ?? (previous ? bearingDegrees(previous, fix) : null),
+          speedMps: fix.speedMps ?? (previous && seconds > 0 ? distanceMeters(previous, fix) / seconds : null),
+          timestamp: Date.now(),
+          // Starting over jumps back to the start of the track
+          ...(looped ? { discontinuity: true } : {}),
+        });
+        const next = index + 1 < track.length ? index + 1 : loop ? 0 : -1;
+        if (next < 0) return;
+        const delay = next === 0 ? 1000 : (track[next].timestamp - fix.timestamp) / speed;
+        timer = window.setTimeout(() => play(track, next, next === 0), Math.max(0, delay));
+      };
+
+      fetch(url)
+        .then((response) => {
+          if (!response.ok) throw new Error(`Failed to load track ${url} (${response.status})`);
+          return response.text();
+        })
+        .then((text) => play(parseLocationTrack(text), 0, false))
+        .catch((error) => {
+          console.error("Failed to replay track:", error);
+          if (!stopped) onError((error as Error).message);
+        });
+
+      return () => {
+        stopped = true;
+        if (timer !== null) window.clearTimeout(timer);
+      };
+    },
+  };
+}
+
+/**
+ * Whether a source's fixes are made up around the selected map, so that they
+ * say nothing about which map the user is on.
+ */
+export function isMapDerivedSource(kind: LocationSourceKind): boolean {
+  return kind === "simulated" || kind === "trail";
+}
+
+/** The source kind and replay track asked for in the page URL. */
+export function getLocationSourceFromUrl(): { kind: LocationSourceKind; replayUrl: string | null } {
+  const params = new URLSearchParams(window.location.search);
+  const requested = params.get("location");
+  const kind = LOCATION_SOURCE_KINDS.find((k) => k === requested) ?? "gps";
+  return { kind, replayUrl: params.get("replay") };
+}
@@ -0,0 +1,168 @@
+import { GPSPosition } from "./gpsUtils";
+import { TOPOMAP_WORLD_SIZE_X, TOPOMAP_WORLD_SIZE_Y } from "./constants";
+
+// Approximate meters per degree at equator
+const METERS_PER_DEGREE_LAT = 111320;
+const METERS_PER_DEGREE_LNG_AT_EQUATOR = 111320;
+
+export interface MapPosition {
+  x: number; // World X coordinate (0 to TOPOMAP_WORLD_SIZE_X), increasing east
+  y: number; // World Y coordinate (0 to TOPOMAP_WORLD_SIZE_Y), increasing south
+}
+
+export interface MockGPSOptions {
+  /** Initial latitude (default: -27.4698, Brisbane) */
+  initialLatitude?: number;
+  /** Initial longitude (default: 153.0251, Brisbane) */
+  initialLongitude?: number;
+}
+
+/**
+ * Position of a GPS fix on the map, relative to a reference fix placed at the
+ * map center (demo positioning). Not clamped to the map.
+ * @param reference - The fix at the map center
+ * @param position - The fix to place
+ * @param realWorldSpanMeters - Real distance spanning the full map width
+ * @param sizeX - World width of the map in km
+ * @param sizeY - World height of the map in km
+ */
+export function getRelativeMapPosition(
+  reference: GPSPosition,
+  position: GPSPosition,
+  realWorldSpanMeters: number,
+  sizeX: number = TOPOMAP_WORLD_SIZE_X,
+  sizeY: number = TOPOMAP_WORLD_SIZE_Y,
+): MapPosition {
+  // Calculate delta in degrees
+  const deltaLat = position.latitude - reference.latitude;
+  const deltaLng = position.longitude - reference.longitude;
+
+  // Convert to meters (approximate)
+  // Adjust longitude meters based on latitude (cosine factor)
+  const metersPerDegreeLng =
+    METERS_PER_DEGREE_LNG_AT_EQUATOR *
+    Math.cos((reference.latitude * Math.PI) / 180);
+
+  const deltaXMeters = deltaLng * metersPerDegreeLng;
+  const deltaYMeters = deltaLat * METERS_PER_DEGREE_LAT;
+
+  // Scale: realWorldSpanMeters meters = full map width
+  // X increases east and Y south (north is -Z in the scene)
+  const scaleX = sizeX / realWorldSpanMeters;
+  const scaleY = sizeY / realWorldSpanMeters;
+
+  return {
+    x: sizeX / 2 + deltaXMeters * scaleX,
+    y: sizeY / 2 - deltaYMeters * scaleY,
+  };
+}
+
+/**
+ * The GPS fix at a map position under demo positioning; the inverse of
+ * getRelativeMapPosition.
+ * @param reference - The fix at the map center
+ * @param mapPosition - World position on the map
+ * @param realWorldSpanMeters - Real distance spanning the full map width
+ * @param sizeX - World width of the map in km
+ * @param sizeY - World height of the map in km
+ */
+export function getRelativeGPSPosition(
+  reference: GPSPosition,
+  mapPosition: MapPosition,
+  realWorldSpanMeters: number,
+  sizeX: number = TOPOMAP_WORLD_SIZE_X,
+  sizeY: number = TOPOMAP_WORLD_SIZE_Y,
+): GPSPosition {
+  const metersPerDegreeLng =
+    METERS_PER_DEGREE_LNG_AT_EQUATOR *
+    Math.cos((reference.latitude * Math.PI) / 180);
+  const deltaXMeters = ((mapPosition.x - sizeX / 2) * realWorldSpanMeters) / sizeX;
+  const deltaYMeters = ((sizeY / 2 - mapPosition.y) * realWorldSpanMeters) / sizeY;
+
+  return {
+    latitude: reference.latitude + deltaYMeters / METERS_PER_DEGREE_LAT,
+    longitude: reference.longitude + deltaXMeters / metersPerDegreeLng,
+  };
+}
+
+/**
+ * Create a mock GPS position provider that simulates movement.
+ * Useful for testing without real GPS.
+ */
+export function createMockGPSProvider(options: MockGPSOptions & {
+  simulateMovement?: boolean;
+  movementSpeedMetersPerSecond?: number;
+} = {}) {
+  const {
+    initialLatitude = -27.4698,
+    initialLongitude = 153.0251,
+    simulateMovement = false,
+    movementSpeedMetersPerSecond = 1,
+  } = options;
+
+  let currentLat = initialLatitude;
+  let currentLng = initialLongitude;
+  let intervalId: number | null = null;
+  let angle = 0;
+
+
+
+  return {
+    /**
+     * Get current mock GPS position
+     */
+    getPosition(): GPSPosition {
+      return { latitude: currentLat, longitude: currentLng };
+    },
+
+    /**
+     * Start simulating movement in a circle
+     */
+    startMovement(callback: (pos: GPSPosition) => void): () => void {
+      if (!simulateMovement) {
+        callback(this.getPosition());
+        return () => {};
+      }
+
+      const radiusMeters = 5; // 5m radius circle
+      const updateInterval = 100; // 100ms updates
+
+      intervalId = window.setInterval(() => {
+        // Calculate position on circle
+        angle += (movementSpeedMetersPerSecond * updateInterval / 1000) / radiusMeters;
+
+        // Calculate degree deltas for this step
+        const latDelta = (movementSpeedMetersPerSecond * updateInterval / 1000 / METERS_PER_DEGREE_LAT) * Math.sin(angle);
+        currentLat += latDelta;
+        currentLng += (movementSpeedMetersPerSecond * updateInterval / 1000 / (METERS_PER_DEGREE_LNG_AT_EQUATOR * Math.cos((currentLat * Math.PI) / 180))) * Math.cos(angle);
+
+        callback(this.getPosition());
+      }, updateInterval);
+
+      return () => {
+        if (intervalId !== null) {
+          clearInterval(intervalId);
+          intervalId = null;
+        }
+      };
+    },
+
+    /**
+     * Manually set position
+     */
+    setPosition(lat: number, lng: number) {
+      currentLat = lat;
+      currentLng = lng;
+    },
+
+    /**
+     * Stop movement simulation
+     */
+    stopMovement() {
+      if (intervalId !== null) {
+        clearInterval(intervalId);
+        intervalId = null;
+      }
+    },
+  };
+}
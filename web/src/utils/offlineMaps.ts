@@ -0,0 +1,116 @@
+import { TopologyOption } from "../components/TopologySelector";
+import { tileUrl } from "./heightmapLoader";
+import { resolveAssetUrl } from "./topologyCatalog";
+
+/**
+ * Downloading catalog maps for use without a network connection.
+ *
+ * A map's files (its heightmap or heightmap tiles, and its trails) are stored
+ * whole in a Cache Storage cache of their own, which the service worker
+ * (src/sw.js) serves them from, also for byte-range requests. Removing a map
+ * deletes its cache, so files shared between maps are stored once per map.
+ *
+ * Maps opened from local files (imported bundles, custom maps) only exist in
+ * the page and can't be downloaded.
+ */
+
+const CACHE_PREFIX = "trailmap-map:";
+
+export interface StorageUsage {
+  /** Bytes used by the app's origin, caches and IndexedDB included */
+  usage: number;
+  /** Bytes the browser allows the origin to use */
+  quota: number;
+}
+
+const cacheName = (option: TopologyOption) => `${CACHE_PREFIX}${option.id}`;
+
+const isLocalUrl = (url: string) => /^(blob|data):/i.test(url);
+
+/** Whether this browser can store maps for offline use. */
+export function isOfflineStorageSupported(): boolean {
+  return typeof caches !== "undefined" && "serviceWorker" in navigator;
+}
+
+/**
+ * The URLs of every file a map loads.
+ * @param option - The map
+ */
+export function getTopologyAssetUrls(option: TopologyOption): string[] {
+  const heightmaps: string[] = [];
+  if (option.tiles) {
+    const { z, minX, maxX, minY, maxY } = option.tiles;
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) heightmaps.push(tileUrl(option.file, z, x, y));
+    }
+  } else {
+    heightmaps.push(option.file);
+  }
+  return [...heightmaps, ...(option.trails ?? [])].map(resolveAssetUrl);
+}
+
+/** Whether a map's files can be downloaded, i.e. it doesn't come from local files. */
+export function canDownloadTopology(option: TopologyOption): boolean {
+  return isOfflineStorageSupported() && !getTopologyAssetUrls(option).some(isLocalUrl);
+}
+
+/**
+ * Whether all of a map's files have been downloaded.
+ * @param option - The map
+ */
+export async function isTopologyAvailableOffline(option: TopologyOption): Promise<boolean> {
+  if (!isOfflineStorageSupported() || !(await caches.has(cacheName(option)))) return false;
+  const cache = await caches.open(cacheName(option));
+  const matches = await Promise.all(getTopologyAssetUrls(option).map((url) => cache.match(url)));
+  return matches.every(Boolean);
+}
+
+/**
+ * Downloads all of a map's files for offline use, replacing an earlier copy.
+ * Nothing is kept when a file fails to download.
+ * @param option - A map whose files are URLs (see canDownloadTopology)
+ * @param onProgress - Called with the fraction of files downloaded
+ */
+export async function downloadTopologyForOffline(
+  option: TopologyOption,
+  onProgress?: (fraction: number) => void,
+): Promise<void> {
+  if (!canDownloadTopology(option)) {
+    throw new Error(`"${option.name}" can't be downloaded for offline use`);
+  }
+  // Ask the browser not to evict the maps when storage runs low
+  await navigator.storage?.persist?.();
+
+  const urls = getTopologyAssetUrls(option);
+  const name = cacheName(option);
+  await caches.delete(name);
+  const cache = await caches.open(name);
+  try {
+    let done = 0;
+    onProgress?.(0);
+    for (const url of urls) {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Failed to download ${url} (${response.status})`);
+      await cache.put(url, response);
+      onProgress?.(++done / urls.length);
+    }
+  } catch (error) {
+    await caches.delete(name);
+    throw error;
+  }
+}
+
+/**
+ * Deletes a map's offline copy.
+ * @param option - The map
+ */
+export async function removeOfflineTopology(option: TopologyOption): Promise<void> {
+  await caches.delete(cacheName(option));
+}
+
+/** How much storage the app uses, or null when the browser doesn't tell. */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  const estimate = await navigator.storage?.estimate?.();
+  if (!estimate || estimate.usage === undefined || estimate.quota === undefined) return null;
+  return { usage: estimate.usage, quota: estimate.quota };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { decodePNG, isDecodablePNG, isPNG } from "./png";
+import { crc32 } from "./zip";
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+/**
+ * Writes a PNG from scanlines that already carry their filter bytes.
+ * The image data is split over two IDAT chunks.
+ */
+async function buildPNG(
+  width: number,
+  height: number,
+  bitDepth: number,
+  colorType: number,
+  scanlines: number[],
+): Promise<ArrayBuffer> {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = colorType;
+
+  const compressed = await deflate(new Uint8Array(scanlines));
+  const half = Math.floor(compressed.length / 2);
+  const parts = [
+    new Uint8Array(SIGNATURE),
+    chunk("IHDR", header),
+    chunk("IDAT", compressed.subarray(0, half)),
+    chunk("IDAT", compressed.subarray(half)),
+    chunk("IEND", new Uint8Array(0)),
+  ];
+
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    out.set(part, at);
+    at += part.length;
+  }
+  return out.buffer;
+}
+
+describe("isPNG", () => {
+  it("checks the signature", () => {
+    expect(isPNG(new Uint8Array(SIGNATURE).buffer)).toBe(true);
+    expect(isPNG(new Uint8Array([0x49, 0x49, 42, 0, 8, 0, 0, 0]).buffer)).toBe(false);
+  });
+});
+
+describe("decodePNG", () => {
+  it("keeps 16-bit grayscale samples", async () => {
+    // Two rows of two pixels: no filter, then the Up filter
+    const buffer = await buildPNG(2, 2, 16, 0, [0, 0x12, 0x34, 0xff, 0xff, 2, 0x00, 0x01, 0x00, 0x01]);
+    expect(isDecodablePNG(buffer)).toBe(true);
+
+    const png = await decodePNG(buffer);
+    expect(png).toMatchObject({ width: 2, height: 2, channels: 1, bitDepth: 16 });
+    // Filters add byte by byte, so nothing carries into the high byte
+    expect(Array.from(png.data)).toEqual([0x1234, 0xffff, 0x1235, 0xff00]);
+  });
+
+  it("reverses the Sub, Average and Paeth filters", async () => {
+    // Three rows of two RGB pixels
+    const buffer = await buildPNG(2, 3, 8, 2, [
+      1, 10, 20, 30, 5, 5, 5,
+      3, 2, 4, 6, 8, 10, 12,
+      4, 1, 1, 1, 1, 1, 1,
+    ]);
+
+    const png = await decodePNG(buffer);
+    expect(png).toMatchObject({ width: 2, height: 3, channels: 3, bitDepth: 8 });
+    expect(Array.from(png.data)).toEqual([
+      // Sub: each byte adds the same channel of the pixel to its left
+      10, 20, 30, 15, 25, 35,
+      // Average: floor((left + up) / 2) is added
+      7, 14, 21, 19, 29, 40,
+      // Paeth: up for the first pixel, then the nearest of left, up and up-left
+      8, 15, 22, 20, 30, 41,
+    ]);
+  });
+
+  it("rejects palette images", async () => {
+    const buffer = await buildPNG(1, 1, 8, 3, [0, 0]);
+    expect(isDecodablePNG(buffer)).toBe(false);
+    await expect(decodePNG(buffer)).rejects.toThrow("unsupported colour type 3");
+  });
+});
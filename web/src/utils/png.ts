@@ -0,0 +1,200 @@
+import { inflate } from "./geotiff";
+
+/**
+ * Minimal PNG decoder that keeps the full sample precision.
+ *
+ * Canvas decoding always yields 8-bit RGBA and may apply colour management,
+ * which destroys 16-bit and RGB-packed elevation data. This decoder returns
+ * the raw samples instead. Non-interlaced 8/16-bit grayscale, grayscale+alpha,
+ * RGB and RGBA images are supported.
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Samples per pixel, indexed by PNG colour type
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = {
+  0: 1, // grayscale
+  2: 3, // RGB
+  4: 2, // grayscale + alpha
+  6: 4, // RGBA
+};
+
+export interface DecodedPNG {
+  width: number;
+  height: number;
+  /** Samples per pixel (1 = gray, 2 = gray+alpha, 3 = RGB, 4 = RGBA) */
+  channels: number;
+  bitDepth: 8 | 16;
+  /** Samples, row-major from the top-left pixel, interleaved by channel */
+  data: Uint8Array | Uint16Array;
+}
+
+/** Returns true if the buffer starts with the PNG signature. */
+export function isPNG(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < PNG_SIGNATURE.length) return false;
+  const bytes = new Uint8Array(buffer, 0, PNG_SIGNATURE.length);
+  return PNG_SIGNATURE.every((value, i) => bytes[i] === value);
+}
+
+/**
+ * Returns true if the buffer is a PNG that decodePNG supports, going by its
+ * header. Palette, sub-byte and interlaced PNGs are left to the browser.
+ */
+export function isDecodablePNG(buffer: ArrayBuffer): boolean {
+  // IHDR must be the first chunk: its data starts after the signature,
+  // length and type, and holds width, height, bit depth, colour type,
+  // compression, filter and interlace method
+  const ihdrData = PNG_SIGNATURE.length + 8;
+  if (!isPNG(buffer) || buffer.byteLength < ihdrData + 13) return false;
+  const view = new DataView(buffer);
+  const bitDepth = view.getUint8(ihdrData + 8);
+  const colorType = view.getUint8(ihdrData + 9);
+  const interlace = view.getUint8(ihdrData + 12);
+  return CHANNELS_BY_COLOR_TYPE[colorType] !== undefined && (bitDepth === 8 || bitDepth === 16) && interlace === 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+/**
+ * Reverses the per-scanline PNG filters in place.
+ * @param bytes - Inflated image data (one filter byte before each scanline)
+ * @param rowBytes - Bytes per scanline, excluding the filter byte
+ * @param rows - Number of scanlines
+ * @param bytesPerPixel - Bytes per complete pixel
+ * @returns The unfiltered scanlines without filter bytes
+ */
+function unfilter(
+  bytes: Uint8Array,
+  rowBytes: number,
+  rows: number,
+  bytesPerPixel: number,
+): Uint8Array {
+  const out = new Uint8Array(rowBytes * rows);
+
+  for (let y = 0; y < rows; y++) {
+    const filter = bytes[y * (rowBytes + 1)];
+    const src = y * (rowBytes + 1) + 1;
+    const dst = y * rowBytes;
+    const prev = dst - rowBytes;
+
+    for (let x = 0; x < rowBytes; x++) {
+      const raw = bytes[src + x];
+      const left = x >= bytesPerPixel ? out[dst + x - bytesPerPixel] : 0;
+      const up = y > 0 ? out[prev + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? out[prev + x - bytesPerPixel] : 0;
+
+      let value: number;
+      switch (filter) {
+        case 0:
+          value = raw;
+          break;
+        case 1:
+          value = raw + left;
+          break;
+        case 2:
+          value = raw + up;
+          break;
+        case 3:
+          value = raw + ((left + up) >> 1);
+          break;
+        case 4:
+          value = raw + paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`PNG: invalid filter type ${filter} on row ${y}`);
+      }
+      out[dst + x] = value & 0xff;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Decodes a PNG file into its raw samples.
+ * @param buffer - The complete file contents
+ */
+export async function decodePNG(buffer: ArrayBuffer): Promise<DecodedPNG> {
+  if (!isPNG(buffer)) {
+    throw new Error("PNG: missing PNG signature");
+  }
+
+  const view = new DataView(buffer);
+  let offset = PNG_SIGNATURE.length;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  const idat: Uint8Array[] = [];
+
+  while (offset + 8 <= buffer.byteLength) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(
+      view.getUint8(offset + 4),
+      view.getUint8(offset + 5),
+      view.getUint8(offset + 6),
+      view.getUint8(offset + 7),
+    );
+    const dataStart = offset + 8;
+
+    if (type === "IHDR") {
+      width = view.getUint32(dataStart);
+      height = view.getUint32(dataStart + 4);
+      bitDepth = view.getUint8(dataStart + 8);
+      colorType = view.getUint8(dataStart + 9);
+      interlace = view.getUint8(dataStart + 12);
+    } else if (type === "IDAT") {
+      idat.push(new Uint8Array(buffer, dataStart, length));
+    } else if (type === "IEND") {
+      break;
+    }
+
+    // Skip data and CRC
+    offset = dataStart + length + 4;
+  }
+
+  const channels = CHANNELS_BY_COLOR_TYPE[colorType];
+  if (!channels) {
+    throw new Error(`PNG: unsupported colour type ${colorType} (palette images are not supported)`);
+  }
+  if (bitDepth !== 8 && bitDepth !== 16) {
+    throw new Error(`PNG: unsupported bit depth ${bitDepth}`);
+  }
+  if (interlace !== 0) {
+    throw new Error("PNG: interlaced images are not supported");
+  }
+
+  let compressedLength = 0;
+  for (const part of idat) compressedLength += part.length;
+  const compressed = new Uint8Array(compressedLength);
+  let at = 0;
+  for (const part of idat) {
+    compressed.set(part, at);
+    at += part.length;
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const bytesPerPixel = channels * bytesPerSample;
+  const rowBytes = width * bytesPerPixel;
+  const pixels = unfilter(await inflate(compressed), rowBytes, height, bytesPerPixel);
+
+  if (bitDepth === 8) {
+    return { width, height, channels, bitDepth, data: pixels };
+  }
+
+  // 16-bit samples are stored big-endian
+  const data = new Uint16Array(width * height * channels);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (pixels[i * 2] << 8) | pixels[i * 2 + 1];
+  }
+  return { width, height, channels, bitDepth, data };
+}
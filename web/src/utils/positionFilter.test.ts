@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { LocationFix } from "./locationSource";
+import { createPositionFilter } from "./positionFilter";
+
+const ORIGIN = { latitude: -26.945, longitude: 152.915 };
+const METERS_PER_DEGREE = 111320;
+
+/** A fix a given number of metres north and east of ORIGIN, t seconds in. */
+function fixAt(northM: number, eastM: number, t: number, extra: Partial<LocationFix> = {}): LocationFix {
+  return {
+    latitude: ORIGIN.latitude + northM / METERS_PER_DEGREE,
+    longitude: ORIGIN.longitude + eastM / (METERS_PER_DEGREE * Math.cos((ORIGIN.latitude * Math.PI) / 180)),
+    accuracyM: 10,
+    altitudeM: null,
+    headingDeg: null,
+    speedMps: null,
+    timestamp: t * 1000,
+    ...extra,
+  };
+}
+
+/** Metres north of ORIGIN of a fix. */
+const northOf = (fix: LocationFix) => (fix.latitude - ORIGIN.latitude) * METERS_PER_DEGREE;
+
+describe("createPositionFilter", () => {
+  it("passes the first fix through", () => {
+    const filter = createPositionFilter();
+    const fix = fixAt(0, 0, 0);
+    const filtered = filter.update(fix);
+    expect(filtered?.latitude).toBeCloseTo(fix.latitude, 9);
+    expect(filtered?.longitude).toBeCloseTo(fix.longitude, 9);
+    expect(filtered?.accuracyM).toBeCloseTo(10, 6);
+  });
+
+  it("averages out noise around a fixed position", () => {
+    const filter = createPositionFilter();
+    const noise = [8, -6, 5, -9, 7, -4, 6, -8, 3, -5];
+    let last: LocationFix | null = null;
+    for (let t = 0; t < noise.length; t++) {
+      last = filter.update(fixAt(noise[t], 0, t, { speedMps: 0 }));
+    }
+    expect(last).not.toBeNull();
+    expect(Math.abs(northOf(last!))).toBeLessThan(3);
+    expect(last!.accuracyM).toBeLessThan(10);
+  });
+
+  it("follows steady movement", () => {
+    const filter = createPositionFilter();
+    let last: LocationFix | null = null;
+    for (let t = 0; t <= 20; t++) {
+      last = filter.update(fixAt(t * 1.5, 0, t));
+    }
+    expect(northOf(last!)).toBeCloseTo(30, 0);
+    expect(last!.speedMps).toBeCloseTo(1.5, 0);
+    expect(last!.headingDeg).toBeCloseTo(0, -1);
+  });
+
+  it("drops a single fix far from the track", () => {
+    const filter = createPositionFilter();
+    for (let t = 0; t < 5; t++) filter.update(fixAt(0, 0, t));
+    expect(filter.update(fixAt(500, 0, 5))).toBeNull();
+    const next = filter.update(fixAt(0, 0, 6));
+    expect(next).not.toBeNull();
+    expect(Math.abs(northOf(next!))).toBeLessThan(1);
+  });
+
+  it("starts again after several outliers in a row", () => {
+    const filter = createPositionFilter({ maxOutliers: 3 });
+    for (let t = 0; t < 5; t++) filter.update(fixAt(0, 0, t));
+    expect(filter.update(fixAt(500, 0, 5))).toBeNull();
+    expect(filter.update(fixAt(500, 0, 6))).toBeNull();
+    const restarted = filter.update(fixAt(500, 0, 7));
+    expect(northOf(restarted!)).toBeCloseTo(500, 6);
+    expect(restarted!.accuracyM).toBeCloseTo(10, 6);
+  });
+
+  it("starts again at a discontinuity", () => {
+    const filter = createPositionFilter();
+    for (let t = 0; t < 5; t++) filter.update(fixAt(0, 0, t));
+    const jumped = filter.update(fixAt(500, 0, 5, { discontinuity: true }));
+    expect(northOf(jumped!)).toBeCloseTo(500, 6);
+    // The next fix follows on from the new position rather than being dropped
+    expect(filter.update(fixAt(501, 0, 6))).not.toBeNull();
+  });
+
+  it("forgets everything on reset", () => {
+    const filter = createPositionFilter();
+    for (let t = 0; t < 5; t++) filter.update(fixAt(0, 0, t));
+    filter.reset();
+    const fresh = filter.update(fixAt(500, 0, 5));
+    expect(northOf(fresh!)).toBeCloseTo(500, 6);
+  });
+});
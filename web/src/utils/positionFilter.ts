@@ -0,0 +1,187 @@
+import { LocationFix } from "./locationSource";
+
+/**
+ * Smooths position fixes with a constant-velocity Kalman filter, so that the
+ * marker glides along instead of jumping with every noisy fix.
+ *
+ * Fixes are weighted by their reported accuracy, and the reported speed and
+ * heading are used as a measurement of the velocity. A fix too far from where
+ * the filter expects it (e.g. a multipath reflection off a cliff) is dropped;
+ * several in a row mean the position really did jump, and the filter starts
+ * again from the latest fix. It also starts again straight away at a fix
+ * marked as a discontinuity, such as a replay looping back to its start.
+ *
+ * The filter works in metres east and north of its first fix, which is close
+ * enough to flat over the extent of a map.
+ */
+
+export interface PositionFilterOptions {
+  /** How quickly the velocity may change, as a standard deviation in m/s² (default: 1) */
+  accelerationMps2?: number;
+  /** Accuracy assumed for fixes that report none, in metres (default: 15) */
+  defaultAccuracyM?: number;
+  /** Uncertainty of reported speeds in m/s (default: 0.5) */
+  speedAccuracyMps?: number;
+  /** Squared Mahalanobis distance beyond which a fix is an outlier (default: 13.8, p = 0.001) */
+  outlierThreshold?: number;
+  /** Outliers in a row after which the filter restarts (default: 3) */
+  maxOutliers?: number;
+}
+
+export interface PositionFilter {
+  /**
+   * Adds a fix.
+   * @returns The filtered fix, whose accuracy is the filter's 1-σ radius, or
+   *   null when the fix was rejected as an outlier
+   */
+  update(fix: LocationFix): LocationFix | null;
+  /** Forgets all fixes so far */
+  reset(): void;
+}
+
+// Mean metres per degree of latitude
+const METERS_PER_DEGREE = 111320;
+
+// Below this speed (m/s) a fix without a heading counts as standing still
+const STATIONARY_SPEED = 0.2;
+
+// Position and velocity along one axis, with their covariance
+interface AxisState {
+  p: number;
+  v: number;
+  pp: number;
+  pv: number;
+  vv: number;
+}
+
+// The filter's local frame around its first fix, and its state in it
+interface FilterState {
+  origin: { latitude: number; longitude: number; metersPerDegreeLng: number };
+  east: AxisState;
+  north: AxisState;
+}
+
+function predictAxis(s: AxisState, dt: number, q: number) {
+  // x = F x, P = F P Fᵀ + Q for F = [[1, dt], [0, 1]] and white-noise acceleration
+  s.p += s.v * dt;
+  s.pp += 2 * dt * s.pv + dt * dt * s.vv + (q * dt ** 4) / 4;
+  s.pv += dt * s.vv + (q * dt ** 3) / 2;
+  s.vv += q * dt * dt;
+}
+
+function correctPosition(s: AxisState, measured: number, variance: number) {
+  const innovation = measured - s.p;
+  const total = s.pp + variance;
+  const kp = s.pp / total;
+  const kv = s.pv / total;
+  s.p += kp * innovation;
+  s.v += kv * innovation;
+  s.vv -= kv * s.pv;
+  s.pv -= kp * s.pv;
+  s.pp -= kp * s.pp;
+}
+
+function correctVelocity(s: AxisState, measured: number, variance: number) {
+  const innovation = measured - s.v;
+  const total = s.vv + variance;
+  const kp = s.pv / total;
+  const kv = s.vv / total;
+  s.p += kp * innovation;
+  s.v += kv * innovation;
+  s.pp -= kp * s.pv;
+  s.pv -= kv * s.pv;
+  s.vv -= kv * s.vv;
+}
+
+/** Creates a filter for one stream of fixes. */
+export function createPositionFilter(options: PositionFilterOptions = {}): PositionFilter {
+  const {
+    accelerationMps2 = 1,
+    defaultAccuracyM = 15,
+    speedAccuracyMps = 0.5,
+    outlierThreshold = 13.8,
+    maxOutliers = 3,
+  } = options;
+  const q = accelerationMps2 ** 2;
+
+  let state: FilterState | null = null;
+  let lastTimestamp = 0;
+  let outliers = 0;
+
+  const restart = (fix: LocationFix, variance: number): FilterState => {
+    lastTimestamp = fix.timestamp;
+    outliers = 0;
+    return {
+      origin: {
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        metersPerDegreeLng: METERS_PER_DEGREE * Math.cos((fix.latitude * Math.PI) / 180),
+      },
+      east: { p: 0, v: 0, pp: variance, pv: 0, vv: 0 },
+      north: { p: 0, v: 0, pp: variance, pv: 0, vv: 0 },
+    };
+  };
+
+  return {
+    update(fix) {
+      const accuracy = fix.accuracyM ?? defaultAccuracyM;
+      const variance = accuracy * accuracy;
+      // Nothing is carried across a jump the source reports
+      if (!state || fix.discontinuity) {
+        state = restart(fix, variance);
+      } else {
+        const { origin, east, north } = state;
+        const dt = Math.max(0, (fix.timestamp - lastTimestamp) / 1000);
+        if (dt > 0) {
+          predictAxis(east, dt, q);
+          predictAxis(north, dt, q);
+        }
+
+        const measuredEast = (fix.longitude - origin.longitude) * origin.metersPerDegreeLng;
+        const measuredNorth = (fix.latitude - origin.latitude) * METERS_PER_DEGREE;
+        const distance =
+          (measuredEast - east.p) ** 2 / (east.pp + variance) + (measuredNorth - north.p) ** 2 / (north.pp + variance);
+        if (distance > outlierThreshold) {
+          outliers++;
+          if (outliers < maxOutliers) {
+            // The prediction stands in for the dropped fix
+            lastTimestamp = fix.timestamp;
+            return null;
+          }
+          state = restart(fix, variance);
+        } else {
+          outliers = 0;
+          lastTimestamp = fix.timestamp;
+          correctPosition(east, measuredEast, variance);
+          correctPosition(north, measuredNorth, variance);
+        }
+      }
+      const { origin: o, east: e, north: n } = state;
+
+      const speedVariance = speedAccuracyMps ** 2;
+      if (fix.speedMps !== null && fix.headingDeg !== null) {
+        const heading = (fix.headingDeg * Math.PI) / 180;
+        correctVelocity(e, fix.speedMps * Math.sin(heading), speedVariance);
+        correctVelocity(n, fix.speedMps * Math.cos(heading), speedVariance);
+      } else if (fix.speedMps !== null && fix.speedMps < STATIONARY_SPEED) {
+        correctVelocity(e, 0, speedVariance);
+        correctVelocity(n, 0, speedVariance);
+      }
+
+      const speed = Math.hypot(e.v, n.v);
+      return {
+        ...fix,
+        latitude: o.latitude + n.p / METERS_PER_DEGREE,
+        longitude: o.longitude + e.p / o.metersPerDegreeLng,
+        accuracyM: Math.sqrt((e.pp + n.pp) / 2),
+        headingDeg:
+          fix.headingDeg ?? (speed >= STATIONARY_SPEED ? ((Math.atan2(e.v, n.v) * 180) / Math.PI + 360) % 360 : null),
+        speedMps: fix.speedMps ?? speed,
+      };
+    },
+    reset() {
+      state = null;
+      outliers = 0;
+    },
+  };
+}
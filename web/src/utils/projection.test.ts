@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  fromWgs84,
+  getUtmZoneEpsg,
+  isSupportedCrs,
+  MapFrame,
+  mapWorldToProjected,
+  projectedToMapWorld,
+  toWgs84,
+  transformPoint,
+  WEB_MERCATOR_EPSG,
+  WGS84_EPSG,
+} from "./projection";
+
+// Half the circumference of the Web Mercator sphere
+const MERCATOR_HALF_WORLD = 20037508.342789244;
+
+const POSITIONS = [
+  { latitude: -26.945, longitude: 152.915 },
+  { latitude: -27.4698, longitude: 153.0251 },
+  { latitude: -43.5, longitude: 148.9 },
+  { latitude: -10.2, longitude: 155.8 },
+];
+
+describe("fromWgs84", () => {
+  it("matches known UTM coordinates", () => {
+    expect(fromWgs84({ latitude: 0, longitude: 3 }, 32631).x).toBeCloseTo(500000, 6);
+    expect(fromWgs84({ latitude: 0, longitude: 3 }, 32631).y).toBeCloseTo(0, 6);
+    expect(fromWgs84({ latitude: 0, longitude: 3 }, 32731).y).toBeCloseTo(10000000, 6);
+    // 0.9996 times the meridian arc from the equator to 45°
+    expect(fromWgs84({ latitude: 45, longitude: -75 }, 32618).y).toBeCloseTo(4982950.4, 1);
+  });
+
+  it("matches known Web Mercator coordinates", () => {
+    const corner = fromWgs84({ latitude: 85.0511287798066, longitude: 180 }, WEB_MERCATOR_EPSG);
+    expect(corner.x).toBeCloseTo(MERCATOR_HALF_WORLD, 3);
+    expect(corner.y).toBeCloseTo(MERCATOR_HALF_WORLD, 3);
+  });
+
+  it("rejects unsupported CRSs", () => {
+    expect(isSupportedCrs(2193)).toBe(false);
+    expect(() => fromWgs84(POSITIONS[0], 2193)).toThrow("Unsupported CRS: EPSG:2193");
+  });
+});
+
+describe("toWgs84", () => {
+  it.each([WGS84_EPSG, WEB_MERCATOR_EPSG, 32756, 28356, 7856, 28355])(
+    "round-trips positions through EPSG:%i",
+    (epsg) => {
+      expect(isSupportedCrs(epsg)).toBe(true);
+      for (const position of POSITIONS) {
+        const back = toWgs84(fromWgs84(position, epsg), epsg);
+        expect(back.latitude).toBeCloseTo(position.latitude, 9);
+        expect(back.longitude).toBeCloseTo(position.longitude, 9);
+      }
+    },
+  );
+});
+
+describe("transformPoint", () => {
+  it("converts between projected CRSs", () => {
+    const mga = fromWgs84(POSITIONS[0], 28356);
+    const mercator = transformPoint(mga, 28356, WEB_MERCATOR_EPSG);
+    const expected = fromWgs84(POSITIONS[0], WEB_MERCATOR_EPSG);
+    expect(mercator.x).toBeCloseTo(expected.x, 4);
+    expect(mercator.y).toBeCloseTo(expected.y, 4);
+
+    const back = transformPoint(mercator, WEB_MERCATOR_EPSG, 28356);
+    expect(back.x).toBeCloseTo(mga.x, 4);
+    expect(back.y).toBeCloseTo(mga.y, 4);
+  });
+
+  it("picks the UTM zone of a position", () => {
+    expect(getUtmZoneEpsg(POSITIONS[0])).toBe(32756);
+    expect(getUtmZoneEpsg({ latitude: 51.5, longitude: -0.1 })).toBe(32630);
+  });
+});
+
+describe("projectedToMapWorld", () => {
+  // A 10 km square heightmap in MGA56, of which the view shows the middle 5 km
+  const frame: MapFrame = {
+    georeference: { epsg: 28356, west: 500000, east: 510000, south: 6990000, north: 7000000 },
+    window: { uCenter: 0.5, vCenter: 0.5, uSpan: 0.5, vSpan: 0.5 },
+    viewSize: 5,
+  };
+
+  it("places the corners of the view at world 0 and viewSize", () => {
+    expect(projectedToMapWorld({ x: 502500, y: 6997500 }, 28356, frame)).toEqual({ x: 0, y: 0 });
+    expect(projectedToMapWorld({ x: 507500, y: 6992500 }, 28356, frame)).toEqual({ x: 5, y: 5 });
+    expect(projectedToMapWorld({ x: 500000, y: 7000000 }, 28356, frame)).toEqual({ x: -2.5, y: -2.5 });
+  });
+
+  it("is undone by mapWorldToProjected", () => {
+    for (const [worldX, worldY] of [
+      [0, 0],
+      [1.25, 3.5],
+      [5, 5],
+      [-1, 6],
+    ]) {
+      // Through WGS84, so that both directions reproject the point
+      const position = mapWorldToProjected(worldX, worldY, frame, WGS84_EPSG);
+      const world = projectedToMapWorld(position, WGS84_EPSG, frame);
+      expect(world.x).toBeCloseTo(worldX, 9);
+      expect(world.y).toBeCloseTo(worldY, 9);
+    }
+  });
+});
@@ -0,0 +1,268 @@
+import { GeoReference } from "./geotiff";
+import { GPSPosition } from "./gpsUtils";
+import { HeightmapWindow } from "./heightmapLoader";
+
+/**
+ * Map projections between WGS84 latitude/longitude and the CRSs that map
+ * data comes in, identified by EPSG code:
+ *
+ * - 4326: WGS84 latitude/longitude, i.e. the equirectangular projection in
+ *   degrees (x = longitude, y = latitude), as used by SRTM tiles
+ * - 3857: Web Mercator metres, as used by XYZ tile servers
+ * - 32601-32660 and 32701-32760: WGS84 UTM zones, north and south
+ * - 28348-28358 and 7846-7859: MGA zones of GDA94 and GDA2020, e.g. 28356
+ *   (MGA56) for south-east Queensland
+ *
+ * MGA is UTM on the GDA datums, which are treated as WGS84: they differ from
+ * it by less than two metres, well within GPS accuracy.
+ *
+ * A MapFrame ties a CRS to the world km of a map, so that points in any
+ * supported CRS can be placed on it.
+ */
+
+export const WGS84_EPSG = 4326;
+export const WEB_MERCATOR_EPSG = 3857;
+
+/** A point in a projected CRS (or longitude/latitude for EPSG:4326) */
+export interface ProjectedPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * How a map's world km relate to a CRS: world (0, 0) is the north-west corner
+ * of the view window, X increases east and Y south.
+ */
+export interface MapFrame {
+  /** Outer bounds of the whole heightmap, and their CRS (EPSG:4326 when unset) */
+  georeference: GeoReference;
+  /** The part of the heightmap the map shows */
+  window: HeightmapWindow;
+  /** World size of the view in km */
+  viewSize: number;
+}
+
+interface Projection {
+  name: string;
+  forward: (position: GPSPosition) => ProjectedPoint;
+  inverse: (point: ProjectedPoint) => GPSPosition;
+}
+
+const DEG = Math.PI / 180;
+
+// WGS84 ellipsoid
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+
+const geographic: Projection = {
+  name: "WGS 84",
+  forward: ({ latitude, longitude }) => ({ x: longitude, y: latitude }),
+  inverse: ({ x, y }) => ({ latitude: y, longitude: x }),
+};
+
+// Spherical Web Mercator, which uses the WGS84 semi-major axis as its radius
+const webMercator: Projection = {
+  name: "WGS 84 / Pseudo-Mercator",
+  forward: ({ latitude, longitude }) => ({
+    x: WGS84_A * longitude * DEG,
+    y: WGS84_A * Math.log(Math.tan(Math.PI / 4 + (latitude * DEG) / 2)),
+  }),
+  inverse: ({ x, y }) => ({
+    latitude: (2 * Math.atan(Math.exp(y / WGS84_A)) - Math.PI / 2) / DEG,
+    longitude: x / WGS84_A / DEG,
+  }),
+};
+
+// Transverse Mercator series of Krüger (as given by Karney, 2011) to fourth
+// order in the third flattening, which is accurate to well under a millimetre
+// within a UTM zone
+const N = WGS84_F / (2 - WGS84_F);
+const RECTIFYING_RADIUS = (WGS84_A / (1 + N)) * (1 + N ** 2 / 4 + N ** 4 / 64);
+const ALPHA = [
+  N / 2 - (2 / 3) * N ** 2 + (5 / 16) * N ** 3 + (41 / 180) * N ** 4,
+  (13 / 48) * N ** 2 - (3 / 5) * N ** 3 + (557 / 1440) * N ** 4,
+  (61 / 240) * N ** 3 - (103 / 140) * N ** 4,
+  (49561 / 161280) * N ** 4,
+];
+const BETA = [
+  N / 2 - (2 / 3) * N ** 2 + (37 / 96) * N ** 3 - (1 / 360) * N ** 4,
+  (1 / 48) * N ** 2 + (1 / 15) * N ** 3 - (437 / 1440) * N ** 4,
+  (17 / 480) * N ** 3 - (37 / 840) * N ** 4,
+  (4397 / 161280) * N ** 4,
+];
+const DELTA = [
+  2 * N - (2 / 3) * N ** 2 - 2 * N ** 3 + (116 / 45) * N ** 4,
+  (7 / 3) * N ** 2 - (8 / 5) * N ** 3 - (227 / 45) * N ** 4,
+  (56 / 15) * N ** 3 - (136 / 35) * N ** 4,
+  (4279 / 630) * N ** 4,
+];
+const UTM_SCALE = 0.9996;
+const UTM_FALSE_EASTING = 500000;
+const UTM_FALSE_NORTHING_SOUTH = 10000000;
+
+function utm(zone: number, south: boolean, name: string): Projection {
+  const centralMeridian = (zone * 6 - 183) * DEG;
+  const falseNorthing = south ? UTM_FALSE_NORTHING_SOUTH : 0;
+  const k = UTM_SCALE * RECTIFYING_RADIUS;
+  const e = (2 * Math.sqrt(N)) / (1 + N);
+
+  return {
+    name,
+    forward: ({ latitude, longitude }) => {
+      const phi = latitude * DEG;
+      const lambda = longitude * DEG - centralMeridian;
+      // Conformal latitude
+      const t = Math.sinh(Math.atanh(Math.sin(phi)) - e * Math.atanh(e * Math.sin(phi)));
+      const xi = Math.atan2(t, Math.cos(lambda));
+      const eta = Math.atanh(Math.sin(lambda) / Math.sqrt(1 + t * t));
+      let x = eta;
+      let y = xi;
+      ALPHA.forEach((alpha, i) => {
+        const j = 2 * (i + 1);
+        x += alpha * Math.cos(j * xi) * Math.sinh(j * eta);
+        y += alpha * Math.sin(j * xi) * Math.cosh(j * eta);
+      });
+      return { x: UTM_FALSE_EASTING + k * x, y: falseNorthing + k * y };
+    },
+    inverse: ({ x, y }) => {
+      const xi = (y - falseNorthing) / k;
+      const eta = (x - UTM_FALSE_EASTING) / k;
+      let xiPrime = xi;
+      let etaPrime = eta;
+      BETA.forEach((beta, i) => {
+        const j = 2 * (i + 1);
+        xiPrime -= beta * Math.sin(j * xi) * Math.cosh(j * eta);
+        etaPrime -= beta * Math.cos(j * xi) * Math.sinh(j * eta);
+      });
+      const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime));
+      let phi = chi;
+      DELTA.forEach((delta, i) => {
+        phi += delta * Math.sin(2 * (i + 1) * chi);
+      });
+      return {
+        latitude: phi / DEG,
+        longitude: (centralMeridian + Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime))) / DEG,
+      };
+    },
+  };
+}
+
+const projections = new Map<number, Projection>();
+
+/**
+ * The projection of a CRS, or null when it isn't supported.
+ * @param epsg - EPSG code of the CRS
+ */
+function getProjection(epsg: number): Projection | null {
+  let projection = projections.get(epsg);
+  if (projection) return projection;
+  if (epsg === WGS84_EPSG) {
+    projection = geographic;
+  } else if (epsg === WEB_MERCATOR_EPSG) {
+    projection = webMercator;
+  } else if (epsg >= 32601 && epsg <= 32660) {
+    projection = utm(epsg - 32600, false, `WGS 84 / UTM zone ${epsg - 32600}N`);
+  } else if (epsg >= 32701 && epsg <= 32760) {
+    projection = utm(epsg - 32700, true, `WGS 84 / UTM zone ${epsg - 32700}S`);
+  } else if (epsg >= 28348 && epsg <= 28358) {
+    projection = utm(epsg - 28300, true, `GDA94 / MGA zone ${epsg - 28300}`);
+  } else if (epsg >= 7846 && epsg <= 7859) {
+    projection = utm(epsg - 7800, true, `GDA2020 / MGA zone ${epsg - 7800}`);
+  } else {
+    return null;
+  }
+  projections.set(epsg, projection);
+  return projection;
+}
+
+function requireProjection(epsg: number): Projection {
+  const projection = getProjection(epsg);
+  if (!projection) throw new Error(`Unsupported CRS: EPSG:${epsg}`);
+  return projection;
+}
+
+/** Whether points can be converted to and from a CRS. */
+export function isSupportedCrs(epsg: number): boolean {
+  return Number.isInteger(epsg) && getProjection(epsg) !== null;
+}
+
+/** Readable name of a CRS, e.g. "GDA94 / MGA zone 56". */
+export function getCrsName(epsg: number): string {
+  return getProjection(epsg)?.name ?? `EPSG:${epsg}`;
+}
+
+/**
+ * EPSG code of the WGS84 UTM zone containing a position.
+ * @param position - WGS84 latitude and longitude
+ */
+export function getUtmZoneEpsg({ latitude, longitude }: GPSPosition): number {
+  const zone = Math.min(Math.max(Math.floor((longitude + 180) / 6) + 1, 1), 60);
+  return (latitude < 0 ? 32700 : 32600) + zone;
+}
+
+/**
+ * Projects a WGS84 position into a CRS.
+ * @param position - WGS84 latitude and longitude
+ * @param epsg - EPSG code of the target CRS
+ */
+export function fromWgs84(position: GPSPosition, epsg: number): ProjectedPoint {
+  return requireProjection(epsg).forward(position);
+}
+
+/**
+ * Converts a point in a CRS to WGS84 latitude and longitude.
+ * @param point - The point in the CRS's units
+ * @param epsg - EPSG code of the point's CRS
+ */
+export function toWgs84(point: ProjectedPoint, epsg: number): GPSPosition {
+  return requireProjection(epsg).inverse(point);
+}
+
+/**
+ * Converts a point between two CRSs.
+ * @param point - The point in the source CRS's units
+ * @param from - EPSG code of the source CRS
+ * @param to - EPSG code of the target CRS
+ */
+export function transformPoint(point: ProjectedPoint, from: number, to: number): ProjectedPoint {
+  if (from === to) return { ...point };
+  return fromWgs84(toWgs84(point, from), to);
+}
+
+/**
+ * Places a point in any supported CRS on a map.
+ * @param point - The point in its CRS's units
+ * @param epsg - EPSG code of the point's CRS
+ * @param frame - The map
+ * @returns World X and Y in km, outside [0, viewSize] when off the view
+ */
+export function projectedToMapWorld(point: ProjectedPoint, epsg: number, frame: MapFrame): ProjectedPoint {
+  const { georeference, window, viewSize } = frame;
+  const { x, y } = transformPoint(point, epsg, georeference.epsg ?? WGS84_EPSG);
+  // UV in the whole heightmap, with v increasing south
+  const u = (x - georeference.west) / (georeference.east - georeference.west);
+  const v = (georeference.north - y) / (georeference.north - georeference.south);
+  return {
+    x: ((u - (window.uCenter - window.uSpan / 2)) / window.uSpan) * viewSize,
+    y: ((v - (window.vCenter - window.vSpan / 2)) / window.vSpan) * viewSize,
+  };
+}
+
+/**
+ * The point in a CRS at a world position of a map; the inverse of
+ * projectedToMapWorld.
+ * @param worldX - World X in km
+ * @param worldY - World Y in km
+ * @param frame - The map
+ * @param epsg - EPSG code of the CRS wanted
+ */
+export function mapWorldToProjected(worldX: number, worldY: number, frame: MapFrame, epsg: number): ProjectedPoint {
+  const { georeference, window, viewSize } = frame;
+  const u = window.uCenter - window.uSpan / 2 + (worldX / viewSize) * window.uSpan;
+  const v = window.vCenter - window.vSpan / 2 + (worldY / viewSize) * window.vSpan;
+  const point = {
+    x: georeference.west + u * (georeference.east - georeference.west),
+    y: georeference.north - v * (georeference.north - georeference.south),
+  };
+  return transformPoint(point, georeference.epsg ?? WGS84_EPSG, epsg);
+}
@@ -0,0 +1,270 @@
+import { HeightGrid } from "./HeightGrid";
+import { TerrainNormalMap } from "./heightmapToMesh";
+import { crc32 } from "./zip";
+
+/**
+ * Persistent cache of processed terrain (the finished height grid and its
+ * normal map) in IndexedDB, so that a map viewed before opens without
+ * decoding, resampling and filtering its heightmap again, also after a reload.
+ *
+ * Entries are keyed by the source URL, a version of its contents and the
+ * processing parameters. The version is the server's ETag (or Last-Modified
+ * and length); files served with neither are keyed by URL alone, so that a
+ * change to them goes unnoticed until the cache is cleared, rather than
+ * downloading them in full just to check. Local files are keyed by their
+ * hash alone, as their object URLs change every session. Tile templates are
+ * assumed not to change. When the version can't be checked (e.g. offline),
+ * the latest entry for the same source is used.
+ *
+ * The least recently used entries are evicted beyond MAX_CACHE_BYTES. Cache
+ * failures are logged and otherwise ignored: the map then loads as usual.
+ */
+
+const DB_NAME = "trailmap-terrain-cache";
+const DB_VERSION = 1;
+// Small records for lookups and eviction, and the heights they describe
+const META_STORE = "meta";
+const DATA_STORE = "data";
+// Bump when the pipeline's output changes, so that older entries aren't used
+const FORMAT_VERSION = 1;
+const MAX_CACHE_BYTES = 256 * 1024 * 1024;
+
+export interface CachedTerrain {
+  grid: HeightGrid;
+  normalMap: TerrainNormalMap | null;
+}
+
+/** Identifies an entry; see getTerrainCacheKey */
+export interface TerrainCacheKey {
+  /** Source and processing parameters */
+  source: string;
+  /** Version of the source's contents, or null when it couldn't be checked */
+  version: string | null;
+}
+
+interface TerrainCacheMeta {
+  key: string;
+  source: string;
+  bytes: number;
+  lastUsed: number;
+}
+
+interface TerrainCacheData {
+  key: string;
+  width: number;
+  height: number;
+  extentX: number;
+  extentY: number;
+  heights: Float32Array;
+  valid: Uint8Array | null;
+  normalMap: TerrainNormalMap | null;
+}
+
+const entryKey = ({ source, version }: TerrainCacheKey) => `${source}#${version}`;
+
+/** Resolves an IndexedDB request. */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Resolves when a transaction has been committed. */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (database) return database;
+  database = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const meta = db.createObjectStore(META_STORE, { keyPath: "key" });
+      meta.createIndex("source", "source");
+      meta.createIndex("lastUsed", "lastUsed");
+      db.createObjectStore(DATA_STORE, { keyPath: "key" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Try again next time rather than keeping a failure
+  database.catch(() => {
+    database = null;
+  });
+  return database;
+}
+
+/** Hash of a file's contents. */
+async function hashBytes(buffer: ArrayBuffer): Promise<string> {
+  // SubtleCrypto only exists in secure contexts
+  if (globalThis.crypto?.subtle) {
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", buffer));
+    return `sha256:${Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+  }
+  return `crc32:${crc32(new Uint8Array(buffer)).toString(16)}:${buffer.byteLength}`;
+}
+
+async function fetchHash(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch ${url} (${response.status})`);
+  return hashBytes(await response.arrayBuffer());
+}
+
+/** Version of a remote file's contents, from its headers. */
+async function getRemoteVersion(url: string): Promise<string> {
+  const response = await fetch(url, { method: "HEAD" });
+  const etag = response.ok ? response.headers.get("ETag") : null;
+  if (etag) return `etag:${etag}`;
+  const modified = response.ok ? response.headers.get("Last-Modified") : null;
+  if (modified) return `modified:${modified}:${response.headers.get("Content-Length")}`;
+  return "unversioned";
+}
+
+/**
+ * Works out the cache key of a map's terrain.
+ * @param url - URL of the heightmap, or a tile template
+ * @param params - Everything else the terrain depends on (decoding options,
+ *   window, filters, sizes); must be JSON-serialisable
+ * @param isTemplate - Whether url is a tile template
+ */
+export async function getTerrainCacheKey(
+  url: string,
+  params: unknown,
+  isTemplate: boolean = false,
+): Promise<TerrainCacheKey> {
+  const source = JSON.stringify([FORMAT_VERSION, url, params]);
+  if (/^(blob|data):/i.test(url)) {
+    try {
+      // Same file, same terrain, whatever URL it was opened under
+      const hash = await fetchHash(url);
+      return { source: JSON.stringify([FORMAT_VERSION, "local", params]), version: hash };
+    } catch (error) {
+      // Nothing is stored under the object URL itself, so this skips the cache
+      console.warn("Could not hash the local heightmap:", error);
+      return { source, version: null };
+    }
+  }
+  if (isTemplate) return { source, version: "template" };
+  try {
+    return { source, version: await getRemoteVersion(url) };
+  } catch (error) {
+    console.warn(`Could not check the version of ${url}:`, error);
+    return { source, version: null };
+  }
+}
+
+/**
+ * Looks up a map's terrain and marks it as recently used.
+ * @param key - From getTerrainCacheKey
+ * @returns The terrain, or null when it isn't cached
+ */
+export async function readTerrainCache(key: TerrainCacheKey): Promise<CachedTerrain | null> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([META_STORE, DATA_STORE], "readwrite");
+    const metaStore = transaction.objectStore(META_STORE);
+
+    let meta: TerrainCacheMeta | undefined;
+    if (key.version !== null) {
+      meta = await requestResult<TerrainCacheMeta | undefined>(metaStore.get(entryKey(key)));
+    } else {
+      const candidates = await requestResult<TerrainCacheMeta[]>(
+        metaStore.index("source").getAll(key.source),
+      );
+      meta = candidates.sort((a, b) => b.lastUsed - a.lastUsed)[0];
+    }
+    if (!meta) return null;
+
+    const data = await requestResult<TerrainCacheData | undefined>(
+      transaction.objectStore(DATA_STORE).get(meta.key),
+    );
+    if (!data) return null;
+    metaStore.put({ ...meta, lastUsed: Date.now() } satisfies TerrainCacheMeta);
+    await transactionDone(transaction);
+
+    return {
+      grid: new HeightGrid(data.width, data.height, data.heights, data.extentX, data.extentY, data.valid),
+      normalMap: data.normalMap,
+    };
+  } catch (error) {
+    console.warn("Failed to read the terrain cache:", error);
+    return null;
+  }
+}
+
+/** Deletes the least recently used entries until the cache fits its budget. */
+async function evictTerrainCache(db: IDBDatabase): Promise<void> {
+  const transaction = db.transaction([META_STORE, DATA_STORE], "readwrite");
+  const metaStore = transaction.objectStore(META_STORE);
+  const entries = await requestResult<TerrainCacheMeta[]>(metaStore.index("lastUsed").getAll());
+  let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  // Oldest first
+  for (const entry of entries) {
+    if (total <= MAX_CACHE_BYTES) break;
+    metaStore.delete(entry.key);
+    transaction.objectStore(DATA_STORE).delete(entry.key);
+    total -= entry.bytes;
+  }
+  await transactionDone(transaction);
+}
+
+/**
+ * Stores a map's terrain, replacing any entry with the same key. Nothing is
+ * stored when the source's version is unknown.
+ * @param key - From getTerrainCacheKey
+ * @param terrain - The finished grid and, once baked, its normal map
+ */
+export async function writeTerrainCache(key: TerrainCacheKey, terrain: CachedTerrain): Promise<void> {
+  if (key.version === null) return;
+  try {
+    const db = await openDatabase();
+    const { grid, normalMap } = terrain;
+    const bytes = grid.data.byteLength + (grid.valid?.byteLength ?? 0) + (normalMap?.slopes.byteLength ?? 0);
+    if (bytes > MAX_CACHE_BYTES) return;
+
+    const transaction = db.transaction([META_STORE, DATA_STORE], "readwrite");
+    const k = entryKey(key);
+    transaction.objectStore(META_STORE).put({
+      key: k,
+      source: key.source,
+      bytes,
+      lastUsed: Date.now(),
+    } satisfies TerrainCacheMeta);
+    transaction.objectStore(DATA_STORE).put({
+      key: k,
+      width: grid.width,
+      height: grid.height,
+      extentX: grid.extentX,
+      extentY: grid.extentY,
+      heights: grid.data,
+      valid: grid.valid,
+      normalMap,
+    } satisfies TerrainCacheData);
+    await transactionDone(transaction);
+
+    await evictTerrainCache(db);
+  } catch (error) {
+    console.warn("Failed to write the terrain cache:", error);
+  }
+}
+
+/** Deletes every cached terrain. */
+export async function clearTerrainCache(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([META_STORE, DATA_STORE], "readwrite");
+  transaction.objectStore(META_STORE).clear();
+  transaction.objectStore(DATA_STORE).clear();
+  await transactionDone(transaction);
+}
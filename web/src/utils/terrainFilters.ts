@@ -0,0 +1,284 @@
+import { HeightGrid } from "./HeightGrid";
+
+/**
+ * Filters that clean up and smooth a height grid before it becomes the
+ * terrain mesh. Each topology picks its own chain (TopologyOption.filters),
+ * applied in order to the resampled grid.
+ *
+ * All filters treat NaN heights as voids: voids don't contribute to their
+ * neighbours, and only fillVoids turns them back into heights. Radii and
+ * sigmas are in grid samples; bilateral's range sigma is in metres.
+ */
+
+export type TerrainFilter =
+  /** Separable Gaussian blur */
+  | { type: "gaussian"; sigma: number; radius?: number }
+  /** Median of the (2 * radius + 1)² window; removes isolated spikes and pits */
+  | { type: "median"; radius: number }
+  /** Edge-preserving blur that ignores neighbours at very different heights */
+  | { type: "bilateral"; sigma: number; rangeSigmaM: number; radius?: number }
+  /** Fills voids from their valid neighbours, growing inwards from the edges */
+  | { type: "fillVoids"; maxDistance?: number };
+
+export type TerrainFilterType = TerrainFilter["type"];
+
+/** Chain used by topologies that don't set their own */
+export const DEFAULT_TERRAIN_FILTERS: TerrainFilter[] = [
+  { type: "gaussian", sigma: 1.5, radius: 2 },
+];
+
+/** Radius covering the bulk of a Gaussian when none is given */
+const defaultRadius = (sigma: number) => Math.max(1, Math.ceil(sigma * 2));
+
+/** Copies a grid's layout with new heights. */
+const withData = (grid: HeightGrid, data: Float32Array) =>
+  new HeightGrid(grid.width, grid.height, data, grid.extentX, grid.extentY, grid.valid);
+
+/**
+ * One pass of a NaN-aware 1D convolution along rows (horizontal) or columns.
+ * Edges are clamped.
+ */
+function convolveAxis(
+  src: Float32Array,
+  width: number,
+  height: number,
+  kernel: Float32Array,
+  horizontal: boolean,
+): Float32Array {
+  const out = new Float32Array(src.length);
+  const radius = (kernel.length - 1) / 2;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let weight = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = horizontal ? Math.min(Math.max(x + k, 0), width - 1) : x;
+        const sy = horizontal ? y : Math.min(Math.max(y + k, 0), height - 1);
+        const value = src[sy * width + sx];
+        if (Number.isNaN(value)) continue;
+        const w = kernel[k + radius];
+        sum += value * w;
+        weight += w;
+      }
+      out[y * width + x] = weight > 0 ? sum / weight : NaN;
+    }
+  }
+  return out;
+}
+
+/**
+ * Blurs a grid with a Gaussian, as a horizontal then a vertical 1D pass.
+ * @param grid - The grid to blur
+ * @param sigma - Standard deviation in samples
+ * @param radius - Kernel half-width in samples (default: about 2 sigma)
+ * @returns A new, blurred grid
+ */
+export function applyGaussianBlur(
+  grid: HeightGrid,
+  sigma: number,
+  radius: number = defaultRadius(sigma),
+): HeightGrid {
+  const kernel = new Float32Array(2 * radius + 1);
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+  }
+  const { width, height } = grid;
+  const rows = convolveAxis(grid.data, width, height, kernel, true);
+  const out = convolveAxis(rows, width, height, kernel, false);
+  // The passes spread heights into voids; keep the voids as they were
+  for (let i = 0; i < out.length; i++) {
+    if (Number.isNaN(grid.data[i])) out[i] = NaN;
+  }
+  return withData(grid, out);
+}
+
+/**
+ * Replaces each sample with the median of its window.
+ * @param grid - The grid to filter
+ * @param radius - Window half-width in samples
+ * @returns A new, filtered grid
+ */
+export function applyMedianFilter(grid: HeightGrid, radius: number): HeightGrid {
+  const { width, height, data } = grid;
+  const out = new Float32Array(data.length);
+  const window = new Float32Array((2 * radius + 1) ** 2);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let count = 0;
+      for (let ky = -radius; ky <= radius; ky++) {
+        const sy = Math.min(Math.max(y + ky, 0), height - 1);
+        for (let kx = -radius; kx <= radius; kx++) {
+          const sx = Math.min(Math.max(x + kx, 0), width - 1);
+          const value = data[sy * width + sx];
+          if (!Number.isNaN(value)) window[count++] = value;
+        }
+      }
+      if (count === 0 || Number.isNaN(data[y * width + x])) {
+        out[y * width + x] = data[y * width + x];
+        continue;
+      }
+      const sorted = window.subarray(0, count).sort();
+      out[y * width + x] =
+        count % 2 === 1
+          ? sorted[(count - 1) / 2]
+          : (sorted[count / 2 - 1] + sorted[count / 2]) / 2;
+    }
+  }
+
+  return withData(grid, out);
+}
+
+/**
+ * Blurs a grid while keeping cliffs and ridges sharp: neighbours are weighted
+ * by distance and by how close their height is to the centre sample.
+ * @param grid - The grid to filter
+ * @param sigma - Spatial standard deviation in samples
+ * @param rangeSigmaM - Height standard deviation in metres
+ * @param radius - Window half-width in samples (default: about 2 sigma)
+ * @returns A new, filtered grid
+ */
+export function applyBilateralFilter(
+  grid: HeightGrid,
+  sigma: number,
+  rangeSigmaM: number,
+  radius: number = defaultRadius(sigma),
+): HeightGrid {
+  const { width, height, data } = grid;
+  const out = new Float32Array(data.length);
+  const rangeSigmaKm = rangeSigmaM / 1000;
+  const spatialDenominator = 2 * sigma * sigma;
+  const rangeDenominator = 2 * rangeSigmaKm * rangeSigmaKm;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const center = data[y * width + x];
+      if (Number.isNaN(center)) {
+        out[y * width + x] = center;
+        continue;
+      }
+      let sum = 0;
+      let weight = 0;
+      for (let ky = -radius; ky <= radius; ky++) {
+        const sy = Math.min(Math.max(y + ky, 0), height - 1);
+        for (let kx = -radius; kx <= radius; kx++) {
+          const sx = Math.min(Math.max(x + kx, 0), width - 1);
+          const value = data[sy * width + sx];
+          if (Number.isNaN(value)) continue;
+          const dh = value - center;
+          const w = Math.exp(-(kx * kx + ky * ky) / spatialDenominator - (dh * dh) / rangeDenominator);
+          sum += value * w;
+          weight += w;
+        }
+      }
+      out[y * width + x] = sum / weight;
+    }
+  }
+
+  return withData(grid, out);
+}
+
+/**
+ * Fills voids with the average of their valid neighbours, one ring of samples
+ * per pass, so holes close from their edges inwards.
+ * @param grid - The grid to fill
+ * @param maxDistance - Most passes to run, i.e. how far (in samples) to fill
+ *   into a void; voids further in are left as they are (default: no limit)
+ * @returns A new grid
+ */
+export function fillVoids(grid: HeightGrid, maxDistance: number = Infinity): HeightGrid {
+  const { width, height } = grid;
+  let current = grid.data.slice();
+
+  for (let pass = 0; pass < maxDistance; pass++) {
+    const next = current.slice();
+    let filled = 0;
+    let remaining = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (!Number.isNaN(current[y * width + x])) continue;
+        let sum = 0;
+        let count = 0;
+        for (let ky = -1; ky <= 1; ky++) {
+          for (let kx = -1; kx <= 1; kx++) {
+            const sx = x + kx;
+            const sy = y + ky;
+            if (sx < 0 || sx >= width || sy < 0 || sy >= height) continue;
+            const value = current[sy * width + sx];
+            if (Number.isNaN(value)) continue;
+            sum += value;
+            count++;
+          }
+        }
+        if (count > 0) {
+          next[y * width + x] = sum / count;
+          filled++;
+        } else {
+          remaining++;
+        }
+      }
+    }
+    current = next;
+    // Stop when done, or when the rest is unreachable (an all-void grid)
+    if (remaining === 0 || filled === 0) break;
+  }
+
+  return withData(grid, current);
+}
+
+/**
+ * How far, in samples, a filter chain reaches from each sample. Voids filled
+ * without a maxDistance don't count, as they can reach any distance.
+ * @param filters - The chain
+ */
+export function getTerrainFilterRadius(filters: TerrainFilter[]): number {
+  return filters.reduce((sum, filter) => {
+    switch (filter.type) {
+      case "gaussian":
+      case "bilateral":
+        return sum + (filter.radius ?? defaultRadius(filter.sigma));
+      case "median":
+        return sum + filter.radius;
+      case "fillVoids":
+        return sum + (filter.maxDistance !== undefined && Number.isFinite(filter.maxDistance) ? filter.maxDistance : 0);
+    }
+  }, 0);
+}
+
+/**
+ * Runs a single filter.
+ * @param grid - The grid to filter
+ * @param filter - The filter and its settings
+ */
+export function applyTerrainFilter(grid: HeightGrid, filter: TerrainFilter): HeightGrid {
+  switch (filter.type) {
+    case "gaussian":
+      return applyGaussianBlur(grid, filter.sigma, filter.radius);
+    case "median":
+      return applyMedianFilter(grid, filter.radius);
+    case "bilateral":
+      return applyBilateralFilter(grid, filter.sigma, filter.rangeSigmaM, filter.radius);
+    case "fillVoids":
+      return fillVoids(grid, filter.maxDistance);
+  }
+}
+
+/**
+ * Runs a filter chain in order.
+ * @param grid - The grid to filter
+ * @param filters - The chain
+ * @param onProgress - Called after each filter with the fraction of the chain done
+ * @returns The filtered grid (the input grid when the chain is empty)
+ */
+export function applyTerrainFilters(
+  grid: HeightGrid,
+  filters: TerrainFilter[],
+  onProgress?: (fraction: number) => void,
+): HeightGrid {
+  let result = grid;
+  filters.forEach((filter, i) => {
+    result = applyTerrainFilter(result, filter);
+    onProgress?.((i + 1) / filters.length);
+  });
+  return result;
+}
@@ -0,0 +1,235 @@
+import { HeightGrid } from "./HeightGrid";
+import { HeightmapWindow } from "./heightmapLoader";
+import {
+  TOPOMAP_GAME_SIZE_LIMIT_X,
+  TOPOMAP_GAME_SIZE_LIMIT_Y,
+} from "./constants";
+
+/**
+ * Quadtree of terrain tiles for maps too large for a single mesh. The root
+ * tile covers the whole map and every level splits a tile into four, so a
+ * tile at level L spans 1 / 2^L of the map on each side. Tiles close to the
+ * camera are drawn from deeper levels.
+ *
+ * Neighbouring tiles can be drawn at different levels. Their shared edges are
+ * snapped onto the coarser tile (stitchTerrainTile), which keeps the seams
+ * free of cracks.
+ */
+
+export interface TerrainTile {
+  level: number;
+  x: number; // Column of the tile in its level (threejs X)
+  y: number; // Row of the tile in its level (threejs Z)
+}
+
+export interface TerrainTileSelection {
+  /** Loaded tiles to draw; together they cover the map circle once */
+  tiles: TerrainTile[];
+  /** Tiles to load next, most urgent first */
+  wanted: TerrainTile[];
+}
+
+// Samples along each side of a tile
+export const TERRAIN_TILE_RESOLUTION = 65;
+
+// Deepest level a map can ask for. Stitching assumes that the vertex spacing
+// of any tile is at most the size of the smallest tile, i.e. 2^levels
+// doesn't exceed the segments of a tile.
+export const MAX_TERRAIN_TILE_LEVEL = Math.log2(TERRAIN_TILE_RESOLUTION - 1);
+
+// A tile is split when the camera is closer to it than this many tile sizes
+const SPLIT_DISTANCE = 1.5;
+
+export const getTerrainTileId = (tile: TerrainTile) => `${tile.level}/${tile.x}/${tile.y}`;
+
+/** The four tiles one level down that make up a tile. */
+export function getTerrainTileChildren({ level, x, y }: TerrainTile): TerrainTile[] {
+  return [
+    { level: level + 1, x: 2 * x, y: 2 * y },
+    { level: level + 1, x: 2 * x + 1, y: 2 * y },
+    { level: level + 1, x: 2 * x, y: 2 * y + 1 },
+    { level: level + 1, x: 2 * x + 1, y: 2 * y + 1 },
+  ];
+}
+
+/** Bounds of a tile in game units (threejs X and Z). */
+export function getTerrainTileBounds({ level, x, y }: TerrainTile) {
+  const sizeX = TOPOMAP_GAME_SIZE_LIMIT_X / 2 ** level;
+  const sizeZ = TOPOMAP_GAME_SIZE_LIMIT_Y / 2 ** level;
+  return { minX: x * sizeX, maxX: (x + 1) * sizeX, minZ: y * sizeZ, maxZ: (y + 1) * sizeZ };
+}
+
+/**
+ * The part of the map's heightmap window that a tile covers.
+ * @param map - The window of the whole map
+ * @param tile - The tile
+ */
+export function getTerrainTileWindow(map: HeightmapWindow, { level, x, y }: TerrainTile): HeightmapWindow {
+  const uSpan = map.uSpan / 2 ** level;
+  const vSpan = map.vSpan / 2 ** level;
+  return {
+    uCenter: map.uCenter - map.uSpan / 2 + (x + 0.5) * uSpan,
+    vCenter: map.vCenter - map.vSpan / 2 + (y + 0.5) * vSpan,
+    uSpan,
+    vSpan,
+  };
+}
+
+/** Whether any of a tile lies inside the map circle. */
+function isInMapCircle(tile: TerrainTile): boolean {
+  const { minX, maxX, minZ, maxZ } = getTerrainTileBounds(tile);
+  const centerX = TOPOMAP_GAME_SIZE_LIMIT_X / 2;
+  const centerZ = TOPOMAP_GAME_SIZE_LIMIT_Y / 2;
+  const radius = Math.min(TOPOMAP_GAME_SIZE_LIMIT_X, TOPOMAP_GAME_SIZE_LIMIT_Y) / 2;
+  const dx = Math.max(minX - centerX, 0, centerX - maxX);
+  const dz = Math.max(minZ - centerZ, 0, centerZ - maxZ);
+  return dx * dx + dz * dz <= radius * radius;
+}
+
+/** Distance from a point to a tile, treating the tile as a box spanning the height range. */
+function distanceToTile(
+  point: { x: number; y: number; z: number },
+  tile: TerrainTile,
+  heightRange: { min: number; max: number },
+): number {
+  const { minX, maxX, minZ, maxZ } = getTerrainTileBounds(tile);
+  const dx = Math.max(minX - point.x, 0, point.x - maxX);
+  const dy = Math.max(heightRange.min - point.y, 0, point.y - heightRange.max);
+  const dz = Math.max(minZ - point.z, 0, point.z - maxZ);
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+/**
+ * Picks the tiles to draw for a camera position. A tile is split when the
+ * camera is close to it, but only once all of its children have loaded, so
+ * that the drawn tiles never leave holes; the missing children are returned
+ * as wanted instead. Tiles wholly outside the map circle are left out.
+ * @param camera - Camera position in game units (threejs axes)
+ * @param maxLevel - Deepest level to split to
+ * @param heightRange - Lowest and highest terrain height in game units
+ * @param isLoaded - Whether a tile's height grid is ready
+ */
+export function selectTerrainTiles(
+  camera: { x: number; y: number; z: number },
+  maxLevel: number,
+  heightRange: { min: number; max: number },
+  isLoaded: (tile: TerrainTile) => boolean,
+): TerrainTileSelection {
+  const root: TerrainTile = { level: 0, x: 0, y: 0 };
+  if (!isLoaded(root)) return { tiles: [], wanted: [root] };
+
+  const tiles: TerrainTile[] = [];
+  const wanted: { tile: TerrainTile; distance: number }[] = [];
+
+  const visit = (tile: TerrainTile) => {
+    const size = TOPOMAP_GAME_SIZE_LIMIT_X / 2 ** tile.level;
+    if (tile.level >= maxLevel || distanceToTile(camera, tile, heightRange) >= size * SPLIT_DISTANCE) {
+      tiles.push(tile);
+      return;
+    }
+    const children = getTerrainTileChildren(tile).filter(isInMapCircle);
+    const missing = children.filter((child) => !isLoaded(child));
+    if (missing.length > 0) {
+      tiles.push(tile);
+      missing.forEach((child) => wanted.push({ tile: child, distance: distanceToTile(camera, child, heightRange) }));
+      return;
+    }
+    children.forEach(visit);
+  };
+  visit(root);
+
+  // Coarse tiles first, as they replace the most, then the closest
+  wanted.sort((a, b) => a.tile.level - b.tile.level || a.distance - b.distance);
+  return { tiles, wanted: wanted.map(({ tile }) => tile) };
+}
+
+/** Whether the closed bounds of two tiles meet (including at a corner). */
+function touches(a: TerrainTile, b: TerrainTile): boolean {
+  const level = Math.max(a.level, b.level);
+  const scaleA = 2 ** (level - a.level);
+  const scaleB = 2 ** (level - b.level);
+  return (
+    a.x * scaleA <= (b.x + 1) * scaleB &&
+    b.x * scaleB <= (a.x + 1) * scaleA &&
+    a.y * scaleA <= (b.y + 1) * scaleB &&
+    b.y * scaleB <= (a.y + 1) * scaleA
+  );
+}
+
+/**
+ * The drawn tiles that share an edge or a corner with a tile, the tile itself
+ * included. These are the tiles its stitched edges depend on.
+ * @param tile - The tile
+ * @param tiles - All tiles being drawn
+ */
+export function getTerrainTileNeighbours(tile: TerrainTile, tiles: TerrainTile[]): TerrainTile[] {
+  return tiles.filter((other) => touches(tile, other));
+}
+
+/**
+ * Snaps the edges of a drawn tile onto its neighbours.
+ *
+ * Every point on a tile edge takes its height from the coarsest tile that
+ * touches it (ties go to the tile with the lowest row, then column). Where
+ * that tile has no vertex, the height is interpolated along its edge, which
+ * is how the coarser tile draws it. As the rule only depends on the point,
+ * all tiles agree on the heights along their seams.
+ * @param tile - The tile to stitch
+ * @param tiles - All tiles being drawn, which must include the tile
+ * @param getGrid - Height grid of a drawn tile; all grids share one resolution
+ * @returns A copy of the tile's grid with its edge heights replaced
+ */
+export function stitchTerrainTile(
+  tile: TerrainTile,
+  tiles: TerrainTile[],
+  getGrid: (tile: TerrainTile) => HeightGrid,
+): HeightGrid {
+  const grid = getGrid(tile);
+  const segments = grid.width - 1;
+  const neighbours = getTerrainTileNeighbours(tile, tiles).map((other) => ({ tile: other, grid: getGrid(other) }));
+
+  // Work on the integer lattice of the finest neighbour's vertices
+  const finest = Math.max(...neighbours.map((n) => n.tile.level));
+  const spacingOf = (t: TerrainTile) => 2 ** (finest - t.level);
+  const originOf = (t: TerrainTile) => ({ x: t.x * segments * spacingOf(t), y: t.y * segments * spacingOf(t) });
+
+  const owns = (a: TerrainTile, b: TerrainTile) =>
+    a.level < b.level || (a.level === b.level && (a.y < b.y || (a.y === b.y && a.x < b.x)));
+
+  const heightAt = (px: number, py: number): number => {
+    let owner: (typeof neighbours)[number] | null = null;
+    for (const neighbour of neighbours) {
+      const origin = originOf(neighbour.tile);
+      const span = segments * spacingOf(neighbour.tile);
+      if (px < origin.x || px > origin.x + span || py < origin.y || py > origin.y + span) continue;
+      if (!owner || owns(neighbour.tile, owner.tile)) owner = neighbour;
+    }
+    // The tile itself always contains the point
+    const { tile: ownerTile, grid: ownerGrid } = owner!;
+    const step = spacingOf(ownerTile);
+    const origin = originOf(ownerTile);
+    const rx = (px - origin.x) % step;
+    const ry = (py - origin.y) % step;
+    if (rx !== 0) {
+      const t = rx / step;
+      return heightAt(px - rx, py) * (1 - t) + heightAt(px - rx + step, py) * t;
+    }
+    if (ry !== 0) {
+      const t = ry / step;
+      return heightAt(px, py - ry) * (1 - t) + heightAt(px, py - ry + step) * t;
+    }
+    return ownerGrid.getWorldZ((px - origin.x) / step, (py - origin.y) / step);
+  };
+
+  const data = grid.data.slice();
+  const step = spacingOf(tile);
+  const origin = originOf(tile);
+  for (let i = 0; i <= segments; i++) {
+    const along = i * step;
+    data[grid.index(i, 0)] = heightAt(origin.x + along, origin.y);
+    data[grid.index(i, segments)] = heightAt(origin.x + along, origin.y + segments * step);
+    data[grid.index(0, i)] = heightAt(origin.x, origin.y + along);
+    data[grid.index(segments, i)] = heightAt(origin.x + segments * step, origin.y + along);
+  }
+  return new HeightGrid(grid.width, grid.height, data, grid.extentX, grid.extentY, grid.valid);
+}
@@ -0,0 +1,164 @@
+import { HeightGrid } from "./HeightGrid";
+
+/**
+ * Adaptive terrain meshing with a right-triangulated irregular network (RTIN).
+ * The grid is split recursively into right triangles along the hypotenuse
+ * midpoints, and a triangle is only split while some grid sample it covers is
+ * further from its plane than the allowed error. Flat ground ends up with a
+ * few large triangles and steep ground keeps the full grid resolution.
+ *
+ * RTIN needs a square grid of 2^k + 1 samples per side.
+ */
+
+// Largest adaptive grid the pipeline builds; the full-resolution grid is also
+// what trails, grass and the height sampler read
+export const MAX_ADAPTIVE_GRID_SIZE = 1025;
+
+export interface AdaptiveMesh {
+  /** Grid sample (HeightGrid.index) of each vertex */
+  vertices: Uint32Array;
+  /** Three vertex indices per triangle, counter-clockwise seen from above */
+  triangles: Uint32Array;
+}
+
+/**
+ * The smallest grid size RTIN can mesh that has at least the given samples per
+ * side, up to MAX_ADAPTIVE_GRID_SIZE.
+ * @param samples - Samples wanted along each side
+ */
+export function getAdaptiveGridSize(samples: number): number {
+  let size = 2;
+  while (size + 1 < samples && size + 1 < MAX_ADAPTIVE_GRID_SIZE) size *= 2;
+  return size + 1;
+}
+
+/** Largest difference between a triangle's plane and the grid samples it covers. */
+function triangleError(
+  terrain: Float32Array,
+  size: number,
+  ax: number, ay: number,
+  bx: number, by: number,
+  cx: number, cy: number,
+): number {
+  const ha = terrain[ay * size + ax];
+  const hb = terrain[by * size + bx];
+  const hc = terrain[cy * size + cx];
+  const det = (bx - ax) * (cy - ay) - (cx - ax) * (by - ay);
+  let error = 0;
+  for (let y = Math.min(ay, by, cy); y <= Math.max(ay, by, cy); y++) {
+    for (let x = Math.min(ax, bx, cx); x <= Math.max(ax, bx, cx); x++) {
+      // Barycentric weights, scaled by det so they stay integers
+      const wa = (bx - x) * (cy - y) - (cx - x) * (by - y);
+      const wb = (cx - x) * (ay - y) - (ax - x) * (cy - y);
+      const wc = det - wa - wb;
+      if ((det > 0 && (wa < 0 || wb < 0 || wc < 0)) || (det < 0 && (wa > 0 || wb > 0 || wc > 0))) continue;
+      const h = (wa * ha + wb * hb + wc * hc) / det;
+      error = Math.max(error, Math.abs(h - terrain[y * size + x]));
+    }
+  }
+  return error;
+}
+
+/**
+ * Works out, for every triangle of the hierarchy, the largest height error
+ * made by not splitting it, stored at its hypotenuse midpoint. A triangle's
+ * error includes its children's, so that splitting stops consistently.
+ * The result only depends on the grid and the detail samples, so it can be
+ * reused to mesh the same grid at different errors.
+ * @param grid - A square grid of 2^k + 1 samples per side
+ * @param detail - Samples (by HeightGrid.index) whose triangles are always
+ *   kept at full resolution, e.g. along cutouts; null for none
+ */
+export function computeAdaptiveMeshErrors(grid: HeightGrid, detail: Uint8Array | null = null): Float32Array {
+  const size = grid.width;
+  const tileSize = size - 1;
+  if (grid.height !== size || tileSize < 1 || (tileSize & (tileSize - 1)) !== 0) {
+    throw new Error(`Adaptive mesh: expected a square grid of 2^k + 1 samples, got ${grid.width}×${grid.height}`);
+  }
+  const terrain = grid.data;
+  const errors = new Float32Array(size * size);
+
+  // Triangles are numbered level by level; the last level has legs of length
+  // one diagonal, whose children are the grid's half-cells
+  const numSmallestTriangles = tileSize * tileSize;
+  const numTriangles = numSmallestTriangles * 2 - 2;
+  const lastLevelIndex = numTriangles - numSmallestTriangles;
+
+  for (let i = numTriangles - 1; i >= 0; i--) {
+    // Walk down from the root triangle to the vertices of triangle i
+    let id = i + 2;
+    let ax = 0, ay = 0, bx = 0, by = 0, cx = 0, cy = 0;
+    if (id & 1) {
+      bx = by = cx = tileSize;
+    } else {
+      ax = ay = cy = tileSize;
+    }
+    while ((id >>= 1) > 1) {
+      const mx = (ax + bx) >> 1;
+      const my = (ay + by) >> 1;
+      if (id & 1) {
+        bx = ax; by = ay;
+        ax = cx; ay = cy;
+      } else {
+        ax = bx; ay = by;
+        bx = cx; by = cy;
+      }
+      cx = mx; cy = my;
+    }
+
+    const middle = ((ay + by) >> 1) * size + ((ax + bx) >> 1);
+    errors[middle] = Math.max(errors[middle], triangleError(terrain, size, ax, ay, bx, by, cx, cy));
+
+    if (i < lastLevelIndex) {
+      const left = ((ay + cy) >> 1) * size + ((ax + cx) >> 1);
+      const right = ((by + cy) >> 1) * size + ((bx + cx) >> 1);
+      errors[middle] = Math.max(errors[middle], errors[left], errors[right]);
+    } else if (
+      detail &&
+      (detail[ay * size + ax] || detail[by * size + bx] || detail[cy * size + cx] || detail[middle])
+    ) {
+      errors[middle] = Infinity;
+    }
+  }
+  return errors;
+}
+
+/**
+ * Triangulates a height grid so that the mesh stays within a vertical error
+ * of every grid sample.
+ * @param grid - A square grid of 2^k + 1 samples per side
+ * @param errors - The grid's errors from computeAdaptiveMeshErrors
+ * @param maxError - Largest height difference to the grid, in world km
+ */
+export function createAdaptiveMesh(grid: HeightGrid, errors: Float32Array, maxError: number): AdaptiveMesh {
+  const size = grid.width;
+  const tileSize = size - 1;
+  // Vertex index + 1 of each sample, 0 while unused
+  const vertexOf = new Uint32Array(size * size);
+  const vertices: number[] = [];
+  const triangles: number[] = [];
+
+  const addVertex = (x: number, y: number) => {
+    const sample = y * size + x;
+    if (vertexOf[sample] === 0) {
+      vertices.push(sample);
+      vertexOf[sample] = vertices.length;
+    }
+    return vertexOf[sample] - 1;
+  };
+
+  const addTriangle = (ax: number, ay: number, bx: number, by: number, cx: number, cy: number) => {
+    const mx = (ax + bx) >> 1;
+    const my = (ay + by) >> 1;
+    if (Math.abs(ax - cx) + Math.abs(ay - cy) > 1 && errors[my * size + mx] > maxError) {
+      addTriangle(cx, cy, ax, ay, mx, my);
+      addTriangle(bx, by, cx, cy, mx, my);
+    } else {
+      triangles.push(addVertex(ax, ay), addVertex(bx, by), addVertex(cx, cy));
+    }
+  };
+  addTriangle(0, 0, tileSize, tileSize, tileSize, 0);
+  addTriangle(tileSize, tileSize, 0, 0, 0, tileSize);
+
+  return { vertices: Uint32Array.from(vertices), triangles: Uint32Array.from(triangles) };
+}
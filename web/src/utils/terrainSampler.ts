@@ -1,5 +1,5 @@
-import { TOPOMAP_WORLD_SIZE_X, TOPOMAP_WORLD_SIZE_Y } from "./constants";
 import { Coordinate } from "./Coordinate";
+import { HeightGrid } from "./HeightGrid";
 import { Point } from "./Point";
 
 /**
@@ -12,68 +12,84 @@ export interface TerrainSampler {
    * Uses a strict subset of the mesh: only returns points that exist in the grid, no interpolation.
    * The coordinate can be set using either world or game coordinates (via Coordinate.worldX/worldY or Coordinate.gameX/gameY).
    * @param coordinate - Coordinate object representing the 2D position
-   * @returns The closest Point from the height mesh (worldX, worldY, worldZ)
+   * @returns The closest Point from the height mesh (worldX, worldY, worldZ), or null off-map or where the grid has no data
    */
   getClosestMapPoint: (coordinate: Coordinate) => Point | null;
 
   /**
-   * Returns the interpolated height at a specific coordinate.
+   * Returns the interpolated height at a specific coordinate, in game units.
    * Uses bilinear interpolation between grid vertices for smooth results.
+   * Returns 0 off-map, and null where the grid has no data (masked samples).
    */
-  getHeightAt: (coordinate: Coordinate) => number;
+  getHeightAt: (coordinate: Coordinate) => number | null;
 
   /**
-   * The matrix of map points to sample from.
+   * Lowest and highest height of the grid in game units.
    */
-  mapPoints: Point[][];
+  getGameHeightRange: () => { min: number; max: number };
+
+  /**
+   * The height grid to sample from.
+   */
+  grid: HeightGrid;
+
+  /**
+   * The vertical exaggeration game heights are scaled by.
+   */
+  verticalExaggeration: number;
 }
 
 /**
- * Creates a TerrainHeightSampler from a 2D matrix of Point objects.
- * @param mapPoints - The 2D array of Point objects representing the terrain
+ * Creates a TerrainHeightSampler from a height grid.
+ * @param grid - The height grid representing the terrain
+ * @param verticalExaggeration - Exaggeration to scale game heights by
  * @returns A TerrainHeightSampler for the given data
  */
-export function createTerrainHeightSamplerFromPointMatrix(
-  mapPoints: Point[][],
+export function createTerrainHeightSamplerFromHeightGrid(
+  grid: HeightGrid,
+  verticalExaggeration: number,
 ): TerrainSampler {
+
   /**
    * Returns the closest point in the height mesh to the requested 2D coordinate.
    * Converts the coordinate to grid indices using the same world-to-grid mapping as the mesh
-   * (worldX/Y in [0, TOPOMAP_WORLD_SIZE_X/Y] maps to [0, cols-1] and [0, rows-1]),
-   * rounds to the nearest cell, and returns that Point (with worldZ). Throws if the coordinate is off-map.
+   * (worldX/Y in [0, extentX/Y] maps to [0, cols-1] and [0, rows-1]),
+   * rounds to the nearest cell, and returns that Point (with worldZ). Returns null if the coordinate is
+   * off-map or the cell is masked.
    *
    * @param coordinate - The 2D position (world or game coords via Coordinate)
-   * @returns The closest Point from mapPoints (3D: worldX, worldY, worldZ)
+   * @returns The closest grid sample as a Point (3D: worldX, worldY, worldZ)
    */
   function getClosestMapPoint(coordinate: Coordinate): Point | null {
-    const numRows = mapPoints.length;
-    const numCols = mapPoints[0]?.length ?? 0;
+    const numRows = grid.height;
+    const numCols = grid.width;
     if (numRows === 0 || numCols === 0) {
-      throw new Error("TerrainHeightSampler: mapPoints is empty");
+      throw new Error("TerrainHeightSampler: grid is empty");
     }
 
     const worldX = coordinate.worldX;
     const worldY = coordinate.worldY;
 
-    // Same mapping as createPointMatrixFromHeightmap / resamplePointMatrix (inverse):
-    // world = (index / (size-1)) * TOPOMAP_WORLD_SIZE  =>  index = (world / TOPOMAP_WORLD_SIZE) * (size-1)
-    const col = Math.round((worldX / TOPOMAP_WORLD_SIZE_X) * (numCols - 1));
-    const row = Math.round((worldY / TOPOMAP_WORLD_SIZE_Y) * (numRows - 1));
+    // Inverse of the HeightGrid sample positions:
+    // world = (index / (size-1)) * extent  =>  index = (world / extent) * (size-1)
+    const col = Math.round((worldX / grid.extentX) * (numCols - 1));
+    const row = Math.round((worldY / grid.extentY) * (numRows - 1));
 
     if (col < 0 || col > numCols - 1 || row < 0 || row > numRows - 1) {
       return null;
     }
+    if (!grid.isValid(col, row)) return null;
 
-    return mapPoints[row][col];
+    return grid.getPoint(col, row);
   }
 
-  function getHeightAt(coordinate: Coordinate): number {
-    const numRows = mapPoints.length;
-    const numCols = mapPoints[0]?.length ?? 0;
+  function getHeightAt(coordinate: Coordinate): number | null {
+    const numRows = grid.height;
+    const numCols = grid.width;
     
     // Normalized world coordinates [0, 1]
-    const u = coordinate.worldX / TOPOMAP_WORLD_SIZE_X;
-    const v = coordinate.worldY / TOPOMAP_WORLD_SIZE_Y;
+    const u = coordinate.worldX / grid.extentX;
+    const v = coordinate.worldY / grid.extentY;
     
     if (u < 0 || u > 1 || v < 0 || v > 1) return 0;
 
@@ -86,6 +102,16 @@ export function createTerrainHeightSamplerFromPointMatrix(
     const x1 = Math.min(x0 + 1, numCols - 1);
     const y1 = Math.min(y0 + 1, numRows - 1);
     
+    // Any masked corner would pull the height towards the mask's fill value
+    if (
+      !grid.isValid(x0, y0) ||
+      !grid.isValid(x1, y0) ||
+      !grid.isValid(x0, y1) ||
+      !grid.isValid(x1, y1)
+    ) {
+      return null;
+    }
+
     const tx = x - x0;
     const ty = y - y0;
     
@@ -94,10 +120,10 @@ export function createTerrainHeightSamplerFromPointMatrix(
     const sx = fade(tx);
     const sy = fade(ty);
 
-    const h00 = mapPoints[y0][x0].gameZ;
-    const h10 = mapPoints[y0][x1].gameZ;
-    const h01 = mapPoints[y1][x0].gameZ;
-    const h11 = mapPoints[y1][x1].gameZ;
+    const h00 = grid.getGameZ(x0, y0, verticalExaggeration);
+    const h10 = grid.getGameZ(x1, y0, verticalExaggeration);
+    const h01 = grid.getGameZ(x0, y1, verticalExaggeration);
+    const h11 = grid.getGameZ(x1, y1, verticalExaggeration);
     
     const h0 = h00 + sx * (h10 - h00);
     const h1 = h01 + sx * (h11 - h01);
@@ -109,9 +135,13 @@ export function createTerrainHeightSamplerFromPointMatrix(
     getClosestMapPoint(coordinate: Coordinate): Point | null {
       return getClosestMapPoint(coordinate);
     },
-    getHeightAt(coordinate: Coordinate): number {
+    getHeightAt(coordinate: Coordinate): number | null {
       return getHeightAt(coordinate);
     },
-    mapPoints: mapPoints,
+    getGameHeightRange(): { min: number; max: number } {
+      return grid.getGameHeightRange(verticalExaggeration);
+    },
+    grid: grid,
+    verticalExaggeration: verticalExaggeration,
   };
 }
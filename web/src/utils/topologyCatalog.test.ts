@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import shippedCatalog from "../../public/topologies.json";
+import { parseTopologyCatalog, validateTopologyOption } from "./topologyCatalog";
+
+const minimal = { id: "local", name: "Local", file: "heightmap.png" };
+
+describe("validateTopologyOption", () => {
+  it("accepts a minimal entry", () => {
+    expect(validateTopologyOption(minimal)).toEqual([]);
+  });
+
+  it("reports missing, unknown and mistyped fields by path", () => {
+    expect(
+      validateTopologyOption({
+        id: "local",
+        file: "heightmap.png",
+        viewWorldSize: 0,
+        uCentre: 0.5,
+        filters: [{ type: "gaussian" }, { type: "blur" }],
+        georeference: { west: 152, east: 153, south: -27, north: -26, epsg: 2193 },
+      }),
+    ).toEqual([
+      '"name" is required',
+      '"viewWorldSize" must be greater than 0',
+      '"uCentre" is not a known field',
+      '"filters[0].sigma" is required',
+      '"filters[1].type" must be one of "gaussian", "median", "bilateral", "fillVoids"',
+      '"georeference.epsg" must be the EPSG code of a supported CRS (4326, 3857, UTM or MGA zones)',
+    ]);
+  });
+
+  it("checks fields against each other", () => {
+    expect(
+      validateTopologyOption({
+        ...minimal,
+        minElevationM: 300,
+        maxElevationM: 100,
+        demoGpsSpanM: 20,
+        georeference: { west: 153, east: 152, south: -27, north: -26 },
+      }),
+    ).toEqual([
+      '"maxElevationM" must be greater than "minElevationM"',
+      '"demoGpsSpanM" can\'t be combined with "georeference"',
+      '"georeference" must have east > west and north > south',
+    ]);
+    expect(validateTopologyOption({ ...minimal, trailsEpsg: 28356 })).toEqual([
+      '"trailsEpsg" needs a "georeference" to place the trails',
+    ]);
+    expect(
+      validateTopologyOption({ ...minimal, tiles: { z: 12, minX: 10, maxX: 9, minY: 0, maxY: 0 } }),
+    ).toEqual(['"tiles" max must not be less than min', '"file" must contain {x} and {y} placeholders when "tiles" is set']);
+  });
+
+  it("rejects repeated POI names", () => {
+    const poi = { name: "Summit", x: 1, y: 2 };
+    expect(validateTopologyOption({ ...minimal, pois: [poi, { ...poi, x: 3 }] })).toEqual([
+      '"pois" names must be unique ("Summit" is repeated)',
+    ]);
+  });
+});
+
+describe("parseTopologyCatalog", () => {
+  it("keeps valid entries and labels the errors of the rest", () => {
+    const catalog = parseTopologyCatalog({
+      topologies: [minimal, { ...minimal, name: "Again" }, { id: "broken", name: "Broken" }, "nonsense"],
+    });
+    expect(catalog.options).toEqual([minimal]);
+    expect(catalog.errors).toEqual([
+      'Topology 2 ("local"): "id" is used by an earlier topology',
+      'Topology 3 ("broken"): "file" is required',
+      'Topology 4: "" must be an object',
+    ]);
+  });
+
+  it("rejects catalogs without topologies", () => {
+    expect(parseTopologyCatalog([]).errors).toEqual(['Catalog must be an object with a "topologies" array']);
+    expect(parseTopologyCatalog({ topologies: [] }).errors).toEqual(["Catalog does not contain any topologies"]);
+  });
+
+  it("accepts the shipped catalog", () => {
+    const catalog = parseTopologyCatalog(shippedCatalog);
+    expect(catalog.errors).toEqual([]);
+    expect(catalog.options.length).toBe(shippedCatalog.topologies.length);
+  });
+});
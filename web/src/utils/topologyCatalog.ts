@@ -0,0 +1,353 @@
+import { useEffect, useState } from "react";
+import { TopologyOption } from "../components/TopologySelector";
+import { HEIGHTMAP_ENCODINGS, HeightmapWindow } from "./heightmapLoader";
+import { TerrainFilterType } from "./terrainFilters";
+import { MAX_TERRAIN_TILE_LEVEL } from "./terrainQuadtree";
+import { isSupportedCrs } from "./projection";
+
+/**
+ * Loading and validation of the topology catalog (public/topologies.json).
+ *
+ * The catalog is a JSON object with a "topologies" array. Each entry has the
+ * shape of a TopologyOption. Entries that fail validation are left out of the
+ * catalog and reported as readable errors instead.
+ */
+
+export const TOPOLOGY_CATALOG_URL = `${import.meta.env.BASE_URL}topologies.json`;
+
+export interface TopologyCatalog {
+  /** Valid entries, in catalog order */
+  options: TopologyOption[];
+  /** One message per problem found, prefixed with the entry it belongs to */
+  errors: string[];
+}
+
+/** Returns the problems with a value, each prefixed with its path. */
+type Validator = (value: unknown, path: string) => string[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const nonEmptyString: Validator = (value, path) =>
+  typeof value === "string" && value.trim() !== ""
+    ? []
+    : [`"${path}" must be a non-empty string`];
+
+function numberIn(min = -Infinity, max = Infinity, { integer = false, exclusiveMin = false } = {}): Validator {
+  return (value, path) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return [`"${path}" must be a number`];
+    }
+    if (integer && !Number.isInteger(value)) {
+      return [`"${path}" must be a whole number`];
+    }
+    if (exclusiveMin ? value <= min : value < min) {
+      return [`"${path}" must be ${exclusiveMin ? "greater than" : "at least"} ${min}`];
+    }
+    if (value > max) {
+      return [`"${path}" must be at most ${max}`];
+    }
+    return [];
+  };
+}
+
+const positiveNumber = numberIn(0, Infinity, { exclusiveMin: true });
+const unitInterval = numberIn(0, 1);
+const wholeNumber = numberIn(0, Infinity, { integer: true });
+
+const boolean: Validator = (value, path) =>
+  typeof value === "boolean" ? [] : [`"${path}" must be true or false`];
+
+function oneOf(values: readonly string[]): Validator {
+  return (value, path) =>
+    typeof value === "string" && values.includes(value)
+      ? []
+      : [`"${path}" must be one of ${values.map((v) => `"${v}"`).join(", ")}`];
+}
+
+const crs: Validator = (value, path) =>
+  typeof value === "number" && isSupportedCrs(value)
+    ? []
+    : [`"${path}" must be the EPSG code of a supported CRS (4326, 3857, UTM or MGA zones)`];
+
+function arrayOf(item: Validator): Validator {
+  return (value, path) => {
+    if (!Array.isArray(value)) return [`"${path}" must be an array`];
+    return value.flatMap((entry, i) => item(entry, `${path}[${i}]`));
+  };
+}
+
+/**
+ * Validates an object against per-field validators. Unknown fields are
+ * reported so that typos in the catalog don't go unnoticed.
+ */
+function objectOf(
+  fields: Record<string, Validator>,
+  required: readonly string[] = [],
+): Validator {
+  return (value, path) => {
+    if (!isObject(value)) return [`"${path}" must be an object`];
+    const prefix = path ? `${path}.` : "";
+    const errors: string[] = [];
+    for (const key of required) {
+      if (value[key] === undefined) errors.push(`"${prefix}${key}" is required`);
+    }
+    for (const [key, fieldValue] of Object.entries(value)) {
+      const validate = fields[key];
+      if (!validate) {
+        errors.push(`"${prefix}${key}" is not a known field`);
+      } else if (fieldValue !== undefined) {
+        errors.push(...validate(fieldValue, `${prefix}${key}`));
+      }
+    }
+    return errors;
+  };
+}
+
+// Fields of each terrain filter type, and which of them are required
+const filterFields: Record<TerrainFilterType, { fields: Record<string, Validator>; required: string[] }> = {
+  gaussian: { fields: { sigma: positiveNumber, radius: wholeNumber }, required: ["sigma"] },
+  median: { fields: { radius: wholeNumber }, required: ["radius"] },
+  bilateral: {
+    fields: { sigma: positiveNumber, rangeSigmaM: positiveNumber, radius: wholeNumber },
+    required: ["sigma", "rangeSigmaM"],
+  },
+  fillVoids: { fields: { maxDistance: wholeNumber }, required: [] },
+};
+
+const terrainFilter: Validator = (value, path) => {
+  if (!isObject(value)) return [`"${path}" must be an object`];
+  const types = Object.keys(filterFields);
+  if (typeof value.type !== "string" || !types.includes(value.type)) {
+    return oneOf(types)(value.type, `${path}.type`);
+  }
+  const { fields, required } = filterFields[value.type as TerrainFilterType];
+  return objectOf({ type: nonEmptyString, ...fields }, required)(value, path);
+};
+
+const boundsFields = {
+  west: numberIn(),
+  south: numberIn(),
+  east: numberIn(),
+  north: numberIn(),
+};
+const boundsRequired = ["west", "south", "east", "north"];
+
+const validateTopology = objectOf(
+  {
+    id: nonEmptyString,
+    name: nonEmptyString,
+    file: nonEmptyString,
+    fileName: nonEmptyString,
+    encoding: oneOf(HEIGHTMAP_ENCODINGS),
+    tiles: objectOf(
+      {
+        z: wholeNumber,
+        minX: wholeNumber,
+        maxX: wholeNumber,
+        minY: wholeNumber,
+        maxY: wholeNumber,
+      },
+      ["z", "minX", "maxX", "minY", "maxY"],
+    ),
+    crop: objectOf(boundsFields, boundsRequired),
+    georeference: objectOf(
+      { ...boundsFields, epsg: crs },
+      boundsRequired,
+    ),
+    demoGpsSpanM: positiveNumber,
+    description: nonEmptyString,
+    viewWorldSize: positiveNumber,
+    uCenter: unitInterval,
+    vCenter: unitInterval,
+    sourceWorldSizeX: positiveNumber,
+    sourceWorldSizeY: positiveNumber,
+    minElevationM: numberIn(),
+    maxElevationM: numberIn(),
+    verticalExaggeration: positiveNumber,
+    filters: arrayOf(terrainFilter),
+    lodLevels: numberIn(0, MAX_TERRAIN_TILE_LEVEL, { integer: true }),
+    meshMaxErrorM: positiveNumber,
+    trails: arrayOf(nonEmptyString),
+    trailsEpsg: crs,
+    pois: arrayOf(
+      objectOf(
+        { name: nonEmptyString, x: numberIn(), y: numberIn(), color: nonEmptyString },
+        ["name", "x", "y"],
+      ),
+    ),
+    showWater: boolean,
+    showSummit: boolean,
+  },
+  ["id", "name", "file"],
+);
+
+/** Cross-field checks that the per-field validators can't express. */
+function checkConsistency(option: TopologyOption): string[] {
+  const errors: string[] = [];
+  if ((option.minElevationM === undefined) !== (option.maxElevationM === undefined)) {
+    errors.push(`"minElevationM" and "maxElevationM" must be given together`);
+  } else if (
+    option.minElevationM !== undefined &&
+    option.maxElevationM !== undefined &&
+    option.maxElevationM <= option.minElevationM
+  ) {
+    errors.push(`"maxElevationM" must be greater than "minElevationM"`);
+  }
+  if (option.tiles) {
+    if (option.tiles.maxX < option.tiles.minX || option.tiles.maxY < option.tiles.minY) {
+      errors.push(`"tiles" max must not be less than min`);
+    }
+    if (!option.file.includes("{x}") || !option.file.includes("{y}")) {
+      errors.push(`"file" must contain {x} and {y} placeholders when "tiles" is set`);
+    }
+  }
+  if (option.meshMaxErrorM !== undefined && (option.lodLevels ?? 0) > 0) {
+    errors.push(`"meshMaxErrorM" can't be combined with "lodLevels"`);
+  }
+  if (option.georeference && option.demoGpsSpanM !== undefined) {
+    errors.push(`"demoGpsSpanM" can't be combined with "georeference"`);
+  }
+  if (option.trailsEpsg !== undefined && !option.georeference) {
+    errors.push(`"trailsEpsg" needs a "georeference" to place the trails`);
+  }
+  // Names identify the pins, so they must be unique within a map
+  const poiNames = new Set<string>();
+  for (const poi of option.pois ?? []) {
+    if (poiNames.has(poi.name)) errors.push(`"pois" names must be unique ("${poi.name}" is repeated)`);
+    poiNames.add(poi.name);
+  }
+  for (const key of ["crop", "georeference"] as const) {
+    const bounds = option[key];
+    if (bounds && (bounds.east <= bounds.west || bounds.north <= bounds.south)) {
+      errors.push(`"${key}" must have east > west and north > south`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Checks a single topology entry, e.g. from the catalog or a map bundle.
+ * @param entry - The parsed entry
+ * @returns A message for every problem found (empty when valid)
+ */
+export function validateTopologyOption(entry: unknown): string[] {
+  const errors = validateTopology(entry, "");
+  return errors.length > 0 ? errors : checkConsistency(entry as TopologyOption);
+}
+
+/**
+ * The view of a topology: its size in world km (square) and the window of the
+ * heightmap it shows.
+ * @param option - The topology
+ */
+export function getTopologyView(option: TopologyOption): { viewSize: number; window: HeightmapWindow } {
+  const viewSize = option.viewWorldSize || 10.0;
+  return {
+    viewSize,
+    window: {
+      uCenter: option.uCenter ?? 0.5,
+      vCenter: option.vCenter ?? 0.5,
+      uSpan: option.sourceWorldSizeX ? viewSize / option.sourceWorldSizeX : 1.0,
+      vSpan: option.sourceWorldSizeY ? viewSize / option.sourceWorldSizeY : 1.0,
+    },
+  };
+}
+
+/**
+ * Resolves a topology asset path (file or trail) to a URL. Plain paths are
+ * relative to the public folder; URLs with a scheme (e.g. blob: URLs of
+ * imported bundles) are used as they are.
+ */
+export function resolveAssetUrl(path: string): string {
+  return /^[a-z][a-z0-9+.-]*:/i.test(path) ? path : `${import.meta.env.BASE_URL}${path}`;
+}
+
+/**
+ * Validates parsed catalog JSON.
+ * @param json - The parsed contents of topologies.json
+ * @returns The valid entries and a message for every problem found
+ */
+export function parseTopologyCatalog(json: unknown): TopologyCatalog {
+  if (!isObject(json) || !Array.isArray(json.topologies)) {
+    return { options: [], errors: ['Catalog must be an object with a "topologies" array'] };
+  }
+
+  const options: TopologyOption[] = [];
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+
+  json.topologies.forEach((entry: unknown, i: number) => {
+    const label =
+      isObject(entry) && typeof entry.id === "string"
+        ? `Topology ${i + 1} ("${entry.id}")`
+        : `Topology ${i + 1}`;
+
+    const entryErrors = validateTopologyOption(entry);
+    if (entryErrors.length === 0) {
+      const option = entry as TopologyOption;
+      if (seenIds.has(option.id)) {
+        entryErrors.push(`"id" is used by an earlier topology`);
+      }
+      if (entryErrors.length === 0) {
+        seenIds.add(option.id);
+        options.push(option);
+      }
+    }
+
+    errors.push(...entryErrors.map((message) => `${label}: ${message}`));
+  });
+
+  if (options.length === 0 && errors.length === 0) {
+    errors.push("Catalog does not contain any topologies");
+  }
+
+  return { options, errors };
+}
+
+/**
+ * Fetches and validates the topology catalog.
+ * @param url - URL of the catalog JSON
+ */
+export async function loadTopologyCatalog(url: string = TOPOLOGY_CATALOG_URL): Promise<TopologyCatalog> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load topology catalog: ${url} (${response.status})`);
+  }
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch (error) {
+    throw new Error(`Topology catalog is not valid JSON: ${(error as Error).message}`);
+  }
+  return parseTopologyCatalog(json);
+}
+
+/**
+ * Hook that loads the topology catalog once on mount.
+ * @returns The catalog once loaded, and an error if it could not be loaded at all
+ */
+export function useTopologyCatalog(url: string = TOPOLOGY_CATALOG_URL) {
+  const [catalog, setCatalog] = useState<TopologyCatalog | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadTopologyCatalog(url)
+      .then((loaded) => {
+        if (!isMounted) return;
+        loaded.errors.forEach((message) => console.warn(message));
+        setCatalog(loaded);
+      })
+      .catch((err: Error) => {
+        if (!isMounted) return;
+        console.error(err);
+        setError(err.message);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [url]);
+
+  return { catalog, error };
+}
@@ -0,0 +1,231 @@
+import { GPSPosition } from "./gpsUtils";
+import { LocationFix, LocationSource } from "./locationSource";
+import { TrailPath } from "./trailTexture";
+
+/**
+ * A simulated hiker walking along a trail, as a location source. The walk
+ * follows the trail polyline at a steady pace, and turns back at the ends of
+ * an open trail. To exercise whatever consumes the fixes, it can add the
+ * typical failings of real GPS: noise on every fix, dropouts with no fixes
+ * at all, and detours where the hiker briefly leaves the trail.
+ */
+
+export interface TrailSimulatorOptions {
+  /** Walking pace in m/s (default: 1.2) */
+  paceMps?: number;
+  /** Standard deviation of the noise added to each fix in metres (default: 4; 0 for none) */
+  jitterM?: number;
+  /** Chance per second of losing the signal (default: 0.01; 0 for none) */
+  dropoutRate?: number;
+  /** How long the signal stays lost in seconds (default: 10) */
+  dropoutSeconds?: number;
+  /** Chance per second of stepping off the trail (default: 0.005; 0 for none) */
+  detourRate?: number;
+  /** Furthest a detour strays from the trail in metres (default: 25) */
+  detourMeters?: number;
+  /** How long a detour lasts in seconds (default: 40) */
+  detourSeconds?: number;
+  /** Seconds between fixes (default: 1) */
+  intervalSeconds?: number;
+  /** Real distance of a world km, e.g. less on maps in demo mode (default: 1000) */
+  metersPerWorldKm?: number;
+}
+
+/** A trail walk that can be paused and sped up while it runs */
+export interface TrailSimulation extends LocationSource {
+  setPlaying(playing: boolean): void;
+  /** Multiplies the passing of simulated time, e.g. 10 to walk ten times as fast */
+  setSpeed(multiplier: number): void;
+}
+
+const DEFAULT_PACE_MPS = 1.2;
+const DEFAULT_JITTER_M = 4;
+const DEFAULT_DETOUR_METERS = 25;
+
+/**
+ * Options for a walk on a map whose world km are much shorter than real ones,
+ * i.e. a map in demo mode: the pace, noise and detours shrink with the map,
+ * so that the walk looks on it as a real hike would on a full-size map.
+ * @param metersPerWorldKm - Real distance of a world km on the map
+ */
+export function getScaledTrailSimulatorOptions(metersPerWorldKm: number): TrailSimulatorOptions {
+  const scale = metersPerWorldKm / 1000;
+  return {
+    paceMps: DEFAULT_PACE_MPS * scale,
+    jitterM: DEFAULT_JITTER_M * scale,
+    detourMeters: DEFAULT_DETOUR_METERS * scale,
+    metersPerWorldKm,
+  };
+}
+
+// Distances along a polyline, to find the point at a given distance
+interface MeasuredPath {
+  points: TrailPath;
+  /** Distance from the start to each point in km */
+  distances: number[];
+  length: number;
+  closed: boolean;
+}
+
+// A trail counts as a loop when its ends are this close (km)
+const LOOP_TOLERANCE = 0.02;
+
+function measurePath(points: TrailPath): MeasuredPath {
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  const first = points[0];
+  const last = points[points.length - 1];
+  return {
+    points,
+    distances,
+    length: distances[distances.length - 1],
+    closed: points.length > 2 && Math.hypot(last.x - first.x, last.y - first.y) <= LOOP_TOLERANCE,
+  };
+}
+
+/** Point and unit direction of travel at a distance along a path. */
+function pointAlong(path: MeasuredPath, distance: number) {
+  const { points, distances } = path;
+  let i = 1;
+  while (i < points.length - 1 && distances[i] < distance) i++;
+  const a = points[i - 1];
+  const b = points[i];
+  const segment = distances[i] - distances[i - 1];
+  const t = segment > 0 ? Math.min(Math.max((distance - distances[i - 1]) / segment, 0), 1) : 0;
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    dirX: segment > 0 ? (b.x - a.x) / segment : 0,
+    dirY: segment > 0 ? (b.y - a.y) / segment : 0,
+  };
+}
+
+/** Standard normal random number (Box-Muller). */
+function gaussian(): number {
+  const u = 1 - Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+}
+
+/**
+ * Creates a walk along the longest of a map's trails.
+ * @param trails - Trails in world km
+ * @param toPosition - Converts a world position (km, Y south) to latitude and longitude
+ * @param options - Pace and GPS failings
+ */
+export function createTrailSimulation(
+  trails: TrailPath[],
+  toPosition: (x: number, y: number) => GPSPosition,
+  options: TrailSimulatorOptions = {},
+): TrailSimulation {
+  const {
+    paceMps = DEFAULT_PACE_MPS,
+    jitterM = DEFAULT_JITTER_M,
+    dropoutRate = 0.01,
+    dropoutSeconds = 10,
+    detourRate = 0.005,
+    detourMeters = DEFAULT_DETOUR_METERS,
+    detourSeconds = 40,
+    intervalSeconds = 1,
+    metersPerWorldKm = 1000,
+  } = options;
+
+  // Reported with every fix; never 0, which would make a filter trust fixes blindly
+  const accuracyM = Math.max(jitterM, 0.001);
+
+  const paths = trails.filter((trail) => trail.length >= 2).map(measurePath);
+  const path = paths.reduce<MeasuredPath | null>((longest, p) => (!longest || p.length > longest.length ? p : longest), null);
+
+  let playing = true;
+  let speed = 1;
+
+  return {
+    kind: "trail",
+    setPlaying(value) {
+      playing = value;
+    },
+    setSpeed(multiplier) {
+      speed = multiplier;
+    },
+    start(onFix, onError) {
+      if (!path || path.length === 0) {
+        onError("This map has no trail to follow");
+        return () => {};
+      }
+
+      // Distance walked in world km; an open trail is walked there and back
+      let walked = 0;
+      let dropoutLeft = 0;
+      let detour: { elapsed: number; side: number } | null = null;
+      let previous: { x: number; y: number } | null = null;
+
+      const step = () => {
+        const seconds = intervalSeconds * speed;
+        walked += (paceMps * seconds) / metersPerWorldKm;
+        const cycle = path.closed ? path.length : 2 * path.length;
+        walked %= cycle;
+        const along = walked <= path.length ? walked : cycle - walked;
+        const { x, y, dirX, dirY } = pointAlong(path, along);
+        const backwards = walked > path.length ? -1 : 1;
+
+        // Detours swing out to one side and back again
+        let offsetKm = 0;
+        if (detour) {
+          detour.elapsed += seconds;
+          if (detour.elapsed >= detourSeconds) {
+            detour = null;
+          } else {
+            offsetKm = (detour.side * detourMeters * Math.sin((Math.PI * detour.elapsed) / detourSeconds)) / metersPerWorldKm;
+          }
+        } else if (Math.random() < detourRate * seconds) {
+          detour = { elapsed: 0, side: Math.random() < 0.5 ? -1 : 1 };
+        }
+        const trueX = x - dirY * offsetKm;
+        const trueY = y + dirX * offsetKm;
+
+        if (dropoutLeft > 0) {
+          dropoutLeft -= seconds;
+          return;
+        }
+        if (Math.random() < dropoutRate * seconds) {
+          dropoutLeft = dropoutSeconds;
+          return;
+        }
+
+        const fixX = trueX + (gaussian() * jitterM) / metersPerWorldKm;
+        const fixY = trueY + (gaussian() * jitterM) / metersPerWorldKm;
+        // Course over ground, clockwise from north (-Y)
+        const headingX = (previous ? trueX - previous.x : dirX * backwards) || dirX;
+        const headingY = (previous ? trueY - previous.y : dirY * backwards) || dirY;
+        previous = { x: trueX, y: trueY };
+        const fix: LocationFix = {
+          ...toPosition(fixX, fixY),
+          accuracyM,
+          altitudeM: null,
+          headingDeg: ((Math.atan2(headingX, -headingY) * 180) / Math.PI + 360) % 360,
+          speedMps: paceMps * speed,
+          timestamp: Date.now(),
+        };
+        onFix(fix);
+      };
+
+      // Show the start of the walk straight away, even while paused
+      const start = pointAlong(path, 0);
+      previous = { x: start.x, y: start.y };
+      onFix({
+        ...toPosition(start.x, start.y),
+        accuracyM,
+        altitudeM: null,
+        headingDeg: null,
+        speedMps: 0,
+        timestamp: Date.now(),
+      });
+
+      const timer = window.setInterval(() => {
+        if (playing) step();
+      }, intervalSeconds * 1000);
+      return () => window.clearInterval(timer);
+    },
+  };
+}
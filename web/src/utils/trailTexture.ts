@@ -1,15 +1,27 @@
 import { useEffect, useState, useRef } from "react";
 import * as THREE from "three";
 import { TOPOMAP_WORLD_SIZE_X, TOPOMAP_WORLD_SIZE_Y } from "./constants";
-
-async function loadTrailCSV(url: string): Promise<{ x: number; y: number }[]> {
+import { MapFrame, projectedToMapWorld } from "./projection";
+
+/** A trail as a polyline of world positions (km) */
+export type TrailPath = { x: number; y: number }[];
+
+/**
+ * Loads a trail CSV as world positions.
+ * @param url - The CSV file, with x,y columns
+ * @param frame - Georeference of the map the trail is placed on
+ * @param epsg - CRS of the columns; undefined for world km
+ */
+async function loadTrailCSV(url: string, frame: MapFrame | null, epsg?: number): Promise<TrailPath> {
   const response = await fetch(url);
   const text = await response.text();
   const lines = text.trim().split("\n");
 
   return lines.slice(1).map((line) => {
     const [x, y] = line.split(",").map(Number);
-    return { x, y };
+    if (epsg === undefined) return { x, y };
+    if (!frame) throw new Error("The map has no georeference to place its trails with");
+    return projectedToMapWorld({ x, y }, epsg, frame);
   });
 }
 
@@ -17,22 +29,36 @@ export interface TrailSampler {
   isOnTrail: (worldX: number, worldY: number) => boolean;
 }
 
-export function useTrailTexture(csvUrl: string | null) {
+/**
+ * Draws the given trails into a texture, and provides a CPU-side sampler for
+ * checking whether a world position lies on one of them, and the trails
+ * themselves.
+ * @param csvUrls - Trail CSV files (world km), or null for no trails
+ * @param frame - Georeference of the map the trails are drawn on
+ * @param epsg - CRS of the files' coordinates when they aren't world km
+ */
+export function useTrailTexture(csvUrls: string[] | null, frame: MapFrame | null, epsg?: number) {
   const [texture, setTexture] = useState<THREE.Texture | null>(null);
   const [sampler, setSampler] = useState<TrailSampler | null>(null);
+  const [paths, setPaths] = useState<TrailPath[]>([]);
   const imageDataRef = useRef<ImageData | null>(null);
 
+  // Arrays are compared by content so that callers can build them inline
+  const urlsKey = csvUrls ? csvUrls.join("\n") : null;
+
   useEffect(() => {
-    if (!csvUrl) {
+    if (urlsKey === null) {
       setTexture(null);
       setSampler(null);
+      setPaths([]);
       imageDataRef.current = null;
       return;
     }
 
     let isMounted = true;
 
-    loadTrailCSV(csvUrl).then((loadedPoints) => {
+    const urls = urlsKey ? urlsKey.split("\n") : [];
+    Promise.all(urls.map((url) => loadTrailCSV(url, frame, epsg))).then((loadedTrails) => {
       if (!isMounted) return;
 
       const canvas = document.createElement("canvas");
@@ -51,18 +77,20 @@ export function useTrailTexture(csvUrl: string | null) {
       ctx.shadowBlur = 12;
       ctx.shadowColor = "white";
 
-      ctx.beginPath();
-      loadedPoints.forEach((p, i) => {
-        const u = p.x / TOPOMAP_WORLD_SIZE_X;
-        const v = p.y / TOPOMAP_WORLD_SIZE_Y;
-        
-        const cx = u * canvas.width;
-        const cy = v * canvas.height;
-        
-        if (i === 0) ctx.moveTo(cx, cy);
-        else ctx.lineTo(cx, cy);
-      });
-      ctx.stroke();
+      for (const loadedPoints of loadedTrails) {
+        ctx.beginPath();
+        loadedPoints.forEach((p, i) => {
+          const u = p.x / TOPOMAP_WORLD_SIZE_X;
+          const v = p.y / TOPOMAP_WORLD_SIZE_Y;
+          
+          const cx = u * canvas.width;
+          const cy = v * canvas.height;
+          
+          if (i === 0) ctx.moveTo(cx, cy);
+          else ctx.lineTo(cx, cy);
+        });
+        ctx.stroke();
+      }
 
       // Store image data for CPU-side sampling
       imageDataRef.current = ctx.getImageData(0, 0, canvas.width, canvas.height);
@@ -98,12 +126,15 @@ export function useTrailTexture(csvUrl: string | null) {
       tex.needsUpdate = true;
       setTexture(tex);
       setSampler(trailSampler);
+      setPaths(loadedTrails);
+    }).catch((error) => {
+      console.error("Failed to load trails:", error);
     });
 
     return () => {
       isMounted = false;
     };
-  }, [csvUrl]);
+  }, [urlsKey, frame, epsg]);
 
-  return { texture, sampler };
+  return { texture, sampler, paths };
 }
@@ -0,0 +1,158 @@
+import { TopologyOption } from "../components/TopologySelector";
+import { resolveAssetUrl, validateTopologyOption } from "./topologyCatalog";
+import { readZip, writeZip, ZipEntry } from "./zip";
+
+/**
+ * Self-contained map bundles (.trailmap).
+ *
+ * A bundle is a zip archive holding a manifest.json plus the files it refers
+ * to. The manifest's "topology" is a TopologyOption (as in topologies.json)
+ * whose file and trails are paths inside the archive:
+ *
+ *   manifest.json          { "format": "trailmap", "version": 1, "topology": {...} }
+ *   heightmap/<file>       the heightmap (image, GeoTIFF or .hgt)
+ *   trails/<file>.csv      zero or more trail files
+ *
+ * POIs and all other metadata live in the manifest itself.
+ */
+
+export const TRAILMAP_EXTENSION = ".trailmap";
+
+const MANIFEST_NAME = "manifest.json";
+const FORMAT = "trailmap";
+const VERSION = 1;
+
+interface TrailmapManifest {
+  format: typeof FORMAT;
+  version: number;
+  topology: TopologyOption;
+}
+
+/** Last path segment of a URL or archive path, without query or hash. */
+function baseName(path: string): string {
+  const segments = path.split(/[?#]/)[0].split("/");
+  return decodeURIComponent(segments[segments.length - 1]);
+}
+
+const hasScheme = (path: string) => /^[a-z][a-z0-9+.-]*:/i.test(path);
+
+async function fetchBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url} (${response.status})`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Reads a .trailmap bundle. Its files are exposed as object URLs, which stay
+ * valid for the rest of the session.
+ * @param file - The bundle, e.g. from a file input
+ * @returns The bundled topology, with file and trails pointing at object URLs
+ */
+export async function importTrailmapBundle(file: Blob): Promise<TopologyOption> {
+  let entries: ZipEntry[];
+  try {
+    entries = await readZip(await file.arrayBuffer());
+  } catch (error) {
+    throw new Error(`Not a valid map bundle: ${(error as Error).message}`);
+  }
+  const byName = new Map(entries.map((entry) => [entry.name, entry.data]));
+
+  const manifestBytes = byName.get(MANIFEST_NAME);
+  if (!manifestBytes) {
+    throw new Error(`Map bundle has no ${MANIFEST_NAME}`);
+  }
+  let manifest: Partial<TrailmapManifest>;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch (error) {
+    throw new Error(`Map bundle ${MANIFEST_NAME} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (manifest.format !== FORMAT) {
+    throw new Error(`Map bundle ${MANIFEST_NAME} is not a ${FORMAT} manifest`);
+  }
+  if (typeof manifest.version !== "number" || manifest.version > VERSION) {
+    throw new Error(`Map bundle version ${manifest.version} is not supported (expected ${VERSION})`);
+  }
+
+  const errors = validateTopologyOption(manifest.topology);
+  if (errors.length > 0) {
+    throw new Error(`Map bundle topology is invalid: ${errors.join("; ")}`);
+  }
+  const topology = manifest.topology as TopologyOption;
+  if (topology.tiles) {
+    throw new Error("Map bundles with tile grids are not supported");
+  }
+
+  const objectUrlFor = (path: string, type?: string) => {
+    const data = byName.get(path);
+    if (!data) {
+      throw new Error(`Map bundle is missing ${path}`);
+    }
+    return URL.createObjectURL(new Blob([data as BlobPart], type ? { type } : undefined));
+  };
+
+  return {
+    ...topology,
+    file: objectUrlFor(topology.file),
+    // Kept so that formats detected by name (e.g. .hgt) still work
+    fileName: topology.fileName ?? baseName(topology.file),
+    trails: topology.trails?.map((trail) => objectUrlFor(trail, "text/csv")),
+  };
+}
+
+/**
+ * Packs a topology and the files it refers to into a .trailmap bundle.
+ * @param option - The topology to export
+ */
+export async function exportTrailmapBundle(option: TopologyOption): Promise<Blob> {
+  if (option.tiles) {
+    throw new Error("Maps built from tile grids can't be exported as a bundle");
+  }
+
+  const heightmapName = `heightmap/${option.fileName ?? baseName(option.file)}`;
+  const entries: ZipEntry[] = [
+    { name: heightmapName, data: await fetchBytes(resolveAssetUrl(option.file)) },
+  ];
+
+  const trailNames: string[] = [];
+  for (const [i, trail] of (option.trails ?? []).entries()) {
+    let name = `trails/${hasScheme(trail) ? `trail-${i + 1}.csv` : baseName(trail)}`;
+    if (trailNames.includes(name)) name = `trails/${i + 1}-${baseName(name)}`;
+    trailNames.push(name);
+    entries.push({ name, data: await fetchBytes(resolveAssetUrl(trail)) });
+  }
+
+  const manifest: TrailmapManifest = {
+    format: FORMAT,
+    version: VERSION,
+    topology: {
+      ...option,
+      file: heightmapName,
+      fileName: undefined,
+      trails: trailNames,
+    },
+  };
+  entries.unshift({
+    name: MANIFEST_NAME,
+    data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+  });
+
+  return writeZip(entries);
+}
+
+/**
+ * Exports a topology as a bundle and hands it to the browser as a download.
+ * @param option - The topology to export
+ */
+export async function downloadTrailmapBundle(option: TopologyOption): Promise<void> {
+  const blob = await exportTrailmapBundle(option);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${option.id}${TRAILMAP_EXTENSION}`;
+  link.click();
+  // Give the browser a moment to start the download before releasing the URL
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from "react";
+
+const hasFiles = (event: DragEvent) => event.dataTransfer?.types.includes("Files") ?? false;
+
+/**
+ * Hook that accepts files dropped anywhere on the page.
+ * @param onDrop - Called with the dropped files
+ * @returns Whether files are currently being dragged over the page
+ */
+export function useFileDrop(onDrop: (files: File[]) => void) {
+  const [isDragging, setIsDragging] = useState(false);
+  const onDropRef = useRef(onDrop);
+  onDropRef.current = onDrop;
+
+  useEffect(() => {
+    // dragenter/dragleave fire for every child element, so count them
+    let depth = 0;
+
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      depth++;
+      setIsDragging(true);
+    };
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      // Required for the drop event to fire
+      event.preventDefault();
+    };
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setIsDragging(false);
+    };
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      depth = 0;
+      setIsDragging(false);
+      const files = Array.from(event.dataTransfer?.files ?? []);
+      if (files.length > 0) onDropRef.current(files);
+    };
+
+    window.addEventListener("dragenter", handleDragEnter);
+    window.addEventListener("dragover", handleDragOver);
+    window.addEventListener("dragleave", handleDragLeave);
+    window.addEventListener("drop", handleDrop);
+    return () => {
+      window.removeEventListener("dragenter", handleDragEnter);
+      window.removeEventListener("dragover", handleDragOver);
+      window.removeEventListener("dragleave", handleDragLeave);
+      window.removeEventListener("drop", handleDrop);
+    };
+  }, []);
+
+  return isDragging;
+}
@@ -0,0 +1,112 @@
+import { useCallback, useMemo, useState } from "react";
+import { TopologyOption } from "../components/TopologySelector";
+import { GPSPosition } from "./gpsUtils";
+import {
+  georeferencedToWorld,
+  getFrameMetersPerWorldKm,
+  getMapPlacement,
+  getTopologyMapFrame,
+} from "./georeference";
+import { getTopologyView } from "./topologyCatalog";
+import { MapPosition, getRelativeMapPosition } from "./mockGps";
+import { MapFrame } from "./projection";
+
+/**
+ * How a map places GPS fixes: from its georeference, relative to the first
+ * fix (demo), or not at all when it has neither. Each mode carries what it
+ * places fixes with.
+ */
+export type Positioning =
+  | { mode: "georeferenced"; frame: MapFrame }
+  | { mode: "demo"; spanM: number; viewSize: number }
+  | { mode: "none" };
+
+export type PositioningMode = Positioning["mode"];
+
+export function getPositioning(option: TopologyOption | null): Positioning {
+  if (!option) return { mode: "none" };
+  if (option.demoGpsSpanM !== undefined) {
+    return { mode: "demo", spanM: option.demoGpsSpanM, viewSize: getTopologyView(option).viewSize };
+  }
+  const frame = getTopologyMapFrame(option);
+  return frame ? { mode: "georeferenced", frame } : { mode: "none" };
+}
+
+/**
+ * Real distance of a world km on a map, for drawing distances in metres, or
+ * null when the map doesn't place fixes.
+ * @param option - The map
+ */
+export function getMetersPerWorldKm(option: TopologyOption): number | null {
+  const positioning = getPositioning(option);
+  switch (positioning.mode) {
+    case "demo":
+      return positioning.spanM / positioning.viewSize;
+    case "georeferenced":
+      return getFrameMetersPerWorldKm(positioning.frame);
+    case "none":
+      return null;
+  }
+}
+
+/**
+ * Hook that places GPS fixes on the selected map.
+ *
+ * Georeferenced maps put a fix where it really is. Maps in demo mode
+ * (demoGpsSpanM) put the first fix at the map center and scale movement so
+ * that demoGpsSpanM metres span the map, so that the marker can be walked
+ * around anywhere. The position follows map changes without a new fix, and
+ * isn't clamped: placement tells whether it is on the map at all.
+ * @param option - The selected map
+ */
+export function useGeoreferencedPosition(option: TopologyOption | null) {
+  // Kept in state so that changing it re-places the current fix
+  const [reference, setReferenceState] = useState<GPSPosition | null>(null);
+  const [position, setPosition] = useState<GPSPosition | null>(null);
+  const positioning = useMemo(() => getPositioning(option), [option]);
+
+  /** Update position from a GPS reading; stable, so it can be used in watch callbacks. */
+  const updateFromGPS = useCallback((gpsPos: GPSPosition) => {
+    setReferenceState((current) => current ?? { ...gpsPos });
+    setPosition(gpsPos);
+  }, []);
+
+  /**
+   * Sets the fix placed at the map center in demo mode, e.g. by a source that
+   * walks the map, or null to take the next fix.
+   */
+  const setReference = useCallback((reference: GPSPosition | null) => {
+    setReferenceState(reference ? { ...reference } : null);
+  }, []);
+
+  // World position, which may be off the map; null without a fix or positioning
+  const mapPosition = useMemo((): MapPosition | null => {
+    if (!position) return null;
+    switch (positioning.mode) {
+      case "demo": {
+        if (!reference) return null;
+        const { spanM, viewSize } = positioning;
+        return getRelativeMapPosition(reference, position, spanM, viewSize, viewSize);
+      }
+      case "georeferenced":
+        return georeferencedToWorld(position, positioning.frame);
+      case "none":
+        return null;
+    }
+  }, [positioning, position, reference]);
+
+  // Whether the position is on the map, and if not how far away it is
+  const placement = useMemo(
+    () => (option && mapPosition ? getMapPlacement(mapPosition, getTopologyView(option).viewSize) : null),
+    [option, mapPosition],
+  );
+
+  return {
+    mapPosition,
+    placement,
+    updateFromGPS,
+    setReference,
+    positioning,
+    isInitialized: position !== null,
+  };
+}
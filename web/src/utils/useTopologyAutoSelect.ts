@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { TopologyOption } from "../components/TopologySelector";
+import { GPSPosition } from "./gpsUtils";
+import { chooseTopologyForPosition, findTopologiesContaining } from "./georeference";
+
+// Where the map the user last picked by hand is remembered
+const SELECTED_TOPOLOGY_KEY = "trailmap:selectedTopology";
+
+function readRememberedTopology(): string | null {
+  try {
+    return window.localStorage.getItem(SELECTED_TOPOLOGY_KEY);
+  } catch {
+    // Storage can be blocked, e.g. in private browsing
+    return null;
+  }
+}
+
+function rememberTopology(id: string) {
+  try {
+    window.localStorage.setItem(SELECTED_TOPOLOGY_KEY, id);
+  } catch (error) {
+    console.warn("Failed to remember the selected map:", error);
+  }
+}
+
+interface TopologyAutoSelectParams {
+  /** The maps to choose from; only georeferenced ones are picked by position */
+  options: TopologyOption[];
+  /** Whether the options have loaded */
+  ready: boolean;
+  selectedId: string | null;
+  setSelectedId: (id: string) => void;
+  /** The latest fix, or null before the first */
+  position: GPSPosition | null;
+  /** Whether the fixes are real positions, rather than made up around the selected map */
+  followPosition: boolean;
+}
+
+/**
+ * Hook that picks the map to show from where the user is.
+ *
+ * Until a fix arrives the map picked by hand last time is shown, else the
+ * first one. The first fix then selects the map containing it, or the nearest
+ * one, unless the user has ever picked a map by hand. After that the map is
+ * never changed automatically: walking into another map's circle raises a
+ * prompt to switch instead.
+ * @returns select, for choices made by the user, and the map being offered
+ */
+export function useTopologyAutoSelect({
+  options,
+  ready,
+  selectedId,
+  setSelectedId,
+  position,
+  followPosition,
+}: TopologyAutoSelectParams) {
+  const [prompt, setPrompt] = useState<TopologyOption | null>(null);
+  // Whether the user has picked a map by hand in this session
+  const manualRef = useRef(false);
+  const hasPositionedRef = useRef(false);
+  // Maps containing the previous fix, to notice walking into another
+  const containingRef = useRef<Set<string>>(new Set());
+
+  /** Selects a map the user chose, and keeps to it from now on. */
+  const select = useCallback(
+    (id: string) => {
+      manualRef.current = true;
+      rememberTopology(id);
+      setPrompt(null);
+      setSelectedId(id);
+    },
+    [setSelectedId],
+  );
+
+  const dismissPrompt = useCallback(() => setPrompt(null), []);
+
+  // Initial selection, before there is a fix
+  useEffect(() => {
+    if (!ready || selectedId !== null || options.length === 0) return;
+    const remembered = readRememberedTopology();
+    setSelectedId(options.find((option) => option.id === remembered)?.id ?? options[0].id);
+  }, [ready, selectedId, options, setSelectedId]);
+
+  useEffect(() => {
+    if (!ready || !position || !followPosition) return;
+
+    const containing = findTopologiesContaining(options, position);
+    const previous = containingRef.current;
+    containingRef.current = new Set(containing.map((option) => option.id));
+
+    if (!hasPositionedRef.current) {
+      hasPositionedRef.current = true;
+      const remembered = readRememberedTopology();
+      if (!manualRef.current && !options.some((option) => option.id === remembered)) {
+        const nearest = chooseTopologyForPosition(options, position);
+        if (nearest && nearest.id !== selectedId) setSelectedId(nearest.id);
+      }
+      return;
+    }
+
+    const now = containingRef.current;
+    setPrompt((current) => {
+      if (current && (current.id === selectedId || !now.has(current.id))) current = null;
+      const entered = containing.find((option) => !previous.has(option.id) && option.id !== selectedId);
+      return entered ?? current;
+    });
+  }, [ready, options, position, followPosition, selectedId, setSelectedId]);
+
+  return { select, prompt, dismissPrompt };
+}
@@ -0,0 +1,191 @@
+import { inflate } from "./geotiff";
+
+/**
+ * Minimal zip archive reader and writer.
+ *
+ * Only what the .trailmap bundles need: stored and deflated entries, no
+ * encryption, no Zip64 (archives and entries must be under 4 GB). Deflate
+ * uses the browser's CompressionStream/DecompressionStream.
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// General purpose flag marking file names as UTF-8
+const FLAG_UTF8 = 0x0800;
+
+export interface ZipEntry {
+  /** Path inside the archive, using forward slashes */
+  name: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflateRaw(input: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([input as BlobPart]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Reads all entries of a zip archive. Directory entries are skipped.
+ * @param buffer - The complete archive
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<ZipEntry[]> {
+  const view = new DataView(buffer);
+
+  // The end of central directory record sits at the end, before an optional comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Zip: end of central directory not found (not a zip file?)");
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("Zip: corrupt central directory");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 0x1) {
+      throw new Error(`Zip: ${name} is encrypted`);
+    }
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Zip: corrupt local header for ${name}`);
+    }
+
+    // The local header has its own name and extra field lengths
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = new Uint8Array(buffer, dataStart, compressedSize);
+
+    let data: Uint8Array;
+    if (method === METHOD_STORED) {
+      data = compressed.slice();
+    } else if (method === METHOD_DEFLATE) {
+      data = await inflate(compressed, "deflate-raw");
+    } else {
+      throw new Error(`Zip: ${name} uses unsupported compression method ${method}`);
+    }
+    if (data.length !== size) {
+      throw new Error(`Zip: ${name} has the wrong size after decompression`);
+    }
+    entries.push({ name, data });
+  }
+
+  return entries;
+}
+
+/**
+ * Builds a zip archive. Entries are deflated unless that doesn't make them
+ * smaller (e.g. PNG and JPEG images), in which case they are stored.
+ * @param entries - Files to add, in order
+ */
+export async function writeZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const centralHeaders: Uint8Array[] = [];
+  let offset = 0;
+
+  // DOS date and time of the export
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const deflated = await deflateRaw(entry.data);
+    const method = deflated.length < entry.data.length ? METHOD_DEFLATE : METHOD_STORED;
+    const stored = method === METHOD_DEFLATE ? deflated : entry.data;
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, 20, true); // version needed to extract
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, dosTime, true);
+    localView.setUint16(12, dosDate, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, stored.length, true);
+    localView.setUint32(22, entry.data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, 20, true); // version made by
+    centralView.setUint16(6, 20, true); // version needed to extract
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, dosTime, true);
+    centralView.setUint16(14, dosDate, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, stored.length, true);
+    centralView.setUint32(24, entry.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, stored);
+    centralHeaders.push(central);
+    offset += local.length + stored.length;
+  }
+
+  let centralSize = 0;
+  for (const header of centralHeaders) centralSize += header.length;
+
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralHeaders, end] as BlobPart[], { type: "application/zip" });
+}
@@ -0,0 +1,146 @@
+import { HeightmapLoadOptions, HeightmapRaster, loadHeightmapRaster } from "../utils/heightmapLoader";
+import { TerrainFilter } from "../utils/terrainFilters";
+import {
+  HeightmapPipelineStage,
+  WorldSize,
+  bakeTerrainNormalMap,
+  getMapMeshHeightGridFromRaster,
+  getTerrainTileHeightGrid,
+} from "../utils/heightmapToMesh";
+
+/**
+ * Runs the heightmap pipeline (decode, sample, resample, filter) off the main
+ * thread. Every request carries the world size the main thread uses, which is
+ * handed to the pipeline, so requests for different maps can overlap.
+ *
+ * The last decoded heightmap is kept, so that the terrain tiles and the normal
+ * map of a map are made without decoding it again.
+ */
+
+export interface HeightmapWorkerRequest {
+  id: number;
+  /** Absolute URL of the heightmap (or tile template) */
+  url: string;
+  uCenter: number;
+  vCenter: number;
+  uSpan: number;
+  vSpan: number;
+  options: HeightmapLoadOptions;
+  filters: TerrainFilter[];
+  /** World size of the map in km */
+  worldSize: WorldSize;
+  /**
+   * Set for a terrain tile: samples along each side and the tile's world size
+   * in km. Without it the whole map grid is built.
+   */
+  tile?: { resolution: number; extentX: number; extentY: number };
+  /** Build the map grid at the heightmap's resolution, for an adaptive mesh */
+  fullResolution?: boolean;
+  /**
+   * Set to bake the window's normal map instead of building a grid: the
+   * window's world size in km.
+   */
+  normalMap?: { extentX: number; extentY: number };
+}
+
+export type HeightmapWorkerResponse =
+  | { id: number; type: "progress"; stage: HeightmapPipelineStage; fraction: number }
+  | {
+      id: number;
+      type: "result";
+      width: number;
+      height: number;
+      extentX: number;
+      extentY: number;
+      heights: Float32Array;
+      valid: Uint8Array | null;
+    }
+  | { id: number; type: "normalMap"; width: number; height: number; slopes: Float32Array }
+  | { id: number; type: "error"; message: string };
+
+// Progress messages closer together than this are dropped
+const PROGRESS_STEP = 0.01;
+
+let cachedRaster: { key: string; raster: Promise<HeightmapRaster> } | null = null;
+
+/** Loads a heightmap, reusing the last one when the same file is asked for. */
+function loadRaster(url: string, options: HeightmapLoadOptions): Promise<HeightmapRaster> {
+  const key = JSON.stringify([url, options]);
+  if (cachedRaster?.key !== key) {
+    const raster = loadHeightmapRaster(url, options);
+    cachedRaster = { key, raster };
+    // Don't keep a failed load around
+    raster.catch(() => {
+      if (cachedRaster?.raster === raster) cachedRaster = null;
+    });
+  }
+  return cachedRaster.raster;
+}
+
+const post = (message: HeightmapWorkerResponse, transfer: Transferable[] = []) =>
+  self.postMessage(message, { transfer });
+
+self.addEventListener("message", async (event: MessageEvent<HeightmapWorkerRequest>) => {
+  const { id, url, uCenter, vCenter, uSpan, vSpan, options, filters, worldSize, tile, fullResolution, normalMap } =
+    event.data;
+
+  let lastStage: HeightmapPipelineStage | null = null;
+  let lastFraction = 0;
+  const reportProgress = (stage: HeightmapPipelineStage, fraction: number) => {
+    if (stage === lastStage && fraction < 1 && fraction - lastFraction < PROGRESS_STEP) return;
+    lastStage = stage;
+    lastFraction = fraction;
+    post({ id, type: "progress", stage, fraction });
+  };
+
+  try {
+    reportProgress("loading", 0);
+    const raster = await loadRaster(url, options);
+    reportProgress("loading", 1);
+    if (normalMap) {
+      const { width, height, slopes } = bakeTerrainNormalMap(
+        raster,
+        worldSize,
+        uCenter,
+        vCenter,
+        uSpan,
+        vSpan,
+        normalMap.extentX,
+        normalMap.extentY,
+      );
+      post({ id, type: "normalMap", width, height, slopes }, [slopes.buffer]);
+      return;
+    }
+    const grid = tile
+      ? getTerrainTileHeightGrid(
+          raster,
+          worldSize,
+          uCenter,
+          vCenter,
+          uSpan,
+          vSpan,
+          tile.resolution,
+          tile.extentX,
+          tile.extentY,
+          filters,
+        )
+      : getMapMeshHeightGridFromRaster(
+          raster,
+          worldSize,
+          uCenter,
+          vCenter,
+          uSpan,
+          vSpan,
+          filters,
+          reportProgress,
+          fullResolution,
+        );
+    const { width, height, extentX, extentY, data: heights, valid } = grid;
+    post(
+      { id, type: "result", width, height, extentX, extentY, heights, valid },
+      valid ? [heights.buffer, valid.buffer] : [heights.buffer],
+    );
+  } catch (error) {
+    post({ id, type: "error", message: (error as Error).message ?? String(error) });
+  }
+});
@@ -1,6 +1,35 @@
-import { defineConfig, loadEnv } from "vite";
+import { readFileSync } from "node:fs";
+import { createHash } from "node:crypto";
+import { defineConfig, loadEnv, Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+// Public files the app needs besides the bundle
+const PRECACHE_PUBLIC_FILES = ["index.html", "topologies.json", "manifest.webmanifest", "favicon.png"];
+
+/**
+ * Emits the service worker (src/sw.js) with the list of files to precache:
+ * everything in the bundle plus the public files of the app shell. The list's
+ * hash names the shell cache, so each build replaces the previous one.
+ */
+function precacheServiceWorker(): Plugin {
+  return {
+    name: "trailmap-precache-sw",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_options, bundle) {
+      const files = [
+        ...PRECACHE_PUBLIC_FILES,
+        ...Object.keys(bundle).filter((file) => !file.endsWith(".map") && !PRECACHE_PUBLIC_FILES.includes(file)),
+      ];
+      const version = createHash("sha256").update(JSON.stringify(files)).digest("hex").slice(0, 12);
+      const source = readFileSync(new URL("./src/sw.js", import.meta.url), "utf8")
+        .replace("self.__PRECACHE_FILES__", JSON.stringify(files))
+        .replace("self.__PRECACHE_VERSION__", JSON.stringify(version));
+      this.emitFile({ type: "asset", fileName: "sw.js", source });
+    },
+  };
+}
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), "");
 
@@ -10,7 +39,7 @@ export default defineConfig(({ mode }) => {
   }
 
   return {
-    plugins: [react()],
+    plugins: [react(), precacheServiceWorker()],
     base: env.VITE_BASE_PATH || "/",
     server: {
       allowedHosts: getAllowedHosts(),